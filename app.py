@@ -7,22 +7,59 @@ import aiohttp
 from aiohttp import web
 from datetime import datetime, timezone
 import os
+import re
 import json
+import hashlib
 import logging
 import asyncio
-from typing import Dict, Optional
+import contextvars
+from typing import Dict, List, Optional
+
+# X-Request-Id of the request being handled ("-" outside requests or when the
+# caller sent none). The RPC bridge sends one with every call, so container
+# log lines can be matched to the bridge's (see frontend/lib/bridge/logger.ts).
+request_id: contextvars.ContextVar[str] = contextvars.ContextVar(
+    "request_id", default="-"
+)
+
+
+class RequestIdFilter(logging.Filter):
+    """Add the current request's id to every log record"""
+
+    def filter(self, record):
+        record.request_id = request_id.get()
+        return True
+
 
 # Set up logging
 logger = logging.getLogger(__name__)
 logging.basicConfig(
-    level=logging.INFO, format="%(asctime)s - %(name)s - %(levelname)s - %(message)s"
+    level=logging.INFO,
+    format="%(asctime)s - %(name)s - %(levelname)s - [%(request_id)s] %(message)s",
 )
+for log_handler in logging.getLogger().handlers:
+    log_handler.addFilter(RequestIdFilter())
 
 # In-memory NFT storage
-# Format: {token_id: {"owner": str, "metadata": dict, "minted_at": str}}
+# Format: {token_id: {"owner": str, "metadata": dict, "minted_at": str,
+#                     "payload_digest": str}}
+# payload_digest is the sha256 of the submitted bytes (the transaction
+# calldata), which lets the RPC bridge link a token to its mint transaction.
 nft_store: Dict[str, Dict] = {}
 next_token_id = 1
 
+# Executed mints, transfers and burns, in order. Each entry records the
+# token_id it produced or changed, the submitting user (X-User) and the
+# payload_digest of its calldata. The RPC bridge pairs a transaction with the
+# entry of the same sender and digest, in the sender's nonce order, so it can
+# link a transaction to its token even when other users submit identical
+# calldata, or after a burn has removed the token from nft_store. The log is
+# append-only.
+# Format: [{"op": str, "token_id": str, "sender": str | None,
+#           "from": str | None, "to": str | None, "payload_digest": str,
+#           "executed_at": str}]
+operation_log: List[Dict] = []
+
 
 # CORS headers
 def cors_headers():
@@ -47,6 +84,143 @@ async def health(request):
     )
 
 
+# Lane operation envelope (see frontend/lib/lane-codec.ts):
+#   b"NL" | version (1 byte) | operation (1 byte) | ABI-encoded tuple of strings
+ENVELOPE_MAGIC = b"NL"
+ENVELOPE_VERSION = 1
+OPERATIONS = {
+    1: ("mint", ["token_id", "owner", "metadata"]),
+    2: ("transfer", ["token_id", "to"]),
+    3: ("burn", ["token_id"]),
+}
+
+# A 20-byte hex address in any letter case; stored lowercased
+ADDRESS_PATTERN = re.compile(r"0x[0-9a-fA-F]{40}")
+
+
+def decode_abi_strings(body: bytes, count: int) -> list:
+    """Decode an ABI-encoded tuple of `count` dynamic strings"""
+    values = []
+    for index in range(count):
+        head = body[32 * index : 32 * (index + 1)]
+        if len(head) < 32:
+            raise ValueError("truncated ABI head")
+        offset = int.from_bytes(head, "big")
+        length = int.from_bytes(body[offset : offset + 32], "big")
+        start = offset + 32
+        if offset + 32 > len(body) or start + length > len(body):
+            raise ValueError("truncated ABI string")
+        values.append(body[start : start + length].decode("utf-8"))
+    return values
+
+
+def decode_operation(data: bytes) -> Dict:
+    """
+    Decode submitted calldata into {"op": ..., **fields}.
+
+    Accepts the versioned lane envelope and, during the migration, the legacy
+    JSON mint format. Raises ValueError for anything else.
+    """
+    if data[:2] != ENVELOPE_MAGIC or len(data) < 4:
+        try:
+            json_data = json.loads(data.decode("utf-8"))
+        except (UnicodeDecodeError, json.JSONDecodeError):
+            raise ValueError("neither a lane envelope nor JSON")
+        if not isinstance(json_data, dict) or not (
+            "token_id" in json_data or "metadata" in json_data
+        ):
+            raise ValueError("not a mint request")
+        # "op" last, so the payload cannot override it
+        return {**json_data, "op": "mint"}
+
+    if data[2] != ENVELOPE_VERSION:
+        raise ValueError(f"unsupported envelope version {data[2]}")
+    if data[3] not in OPERATIONS:
+        raise ValueError(f"unknown operation code {data[3]}")
+
+    op, fields = OPERATIONS[data[3]]
+    try:
+        values = decode_abi_strings(data[4:], len(fields))
+    except UnicodeDecodeError:
+        raise ValueError("ABI string is not valid UTF-8")
+    operation = {"op": op, **dict(zip(fields, values))}
+
+    if op == "transfer":
+        if not ADDRESS_PATTERN.fullmatch(operation["to"]):
+            raise ValueError("transfer recipient is not an address")
+        operation["to"] = operation["to"].lower()
+
+    if op == "mint":
+        try:
+            operation["metadata"] = json.loads(operation["metadata"])
+        except json.JSONDecodeError:
+            raise ValueError("mint metadata is not valid JSON")
+        # Empty token_id / owner mean "let the lane choose"
+        for key in ("token_id", "owner"):
+            if not operation[key]:
+                del operation[key]
+    return operation
+
+
+def error_response(message: str, status: int):
+    return web.json_response(
+        {"status": "error", "message": message},
+        status=status,
+        headers=cors_headers(),
+    )
+
+
+def execute_owner_operation(operation: Dict, user: Optional[str], data: bytes):
+    """
+    Transfer or burn a token. Only its current owner may do either: the X-User
+    header must match the owner (case-insensitively), and submissions without
+    it are rejected.
+    """
+    op = operation["op"]
+    token_id = operation["token_id"]
+    nft = nft_store.get(token_id)
+    if nft is None:
+        logger.info(f"Rejected {op}: token {token_id} not found")
+        return error_response(f"Token {token_id} not found", 404)
+
+    owner = str(nft["owner"])
+    if not user:
+        logger.info(f"Rejected {op} of {token_id}: no X-User header")
+        return error_response(f"{op} of token {token_id} needs a sender", 403)
+    if user.lower() != owner.lower():
+        logger.info(f"Rejected {op} of {token_id}: {user} is not the owner")
+        return error_response(f"{user} does not own token {token_id}", 403)
+
+    if op == "transfer":
+        nft["owner"] = operation["to"]
+    else:
+        del nft_store[token_id]
+
+    operation_log.append(
+        {
+            "op": op,
+            "token_id": token_id,
+            "sender": user,
+            "from": owner,
+            "to": operation.get("to"),
+            "payload_digest": hashlib.sha256(data).hexdigest(),
+            "executed_at": datetime.now(timezone.utc).isoformat(),
+        }
+    )
+    logger.info(f"Executed {op} of token_id={token_id} from {owner}")
+
+    return web.json_response(
+        {
+            "status": "ok",
+            "message": "Submission processed successfully",
+            "bytes_received": len(data),
+            "token_id": token_id,
+        },
+        status=200,
+        headers=cors_headers(),
+    )
+
+
 async def submit_handler(request):
     """
     Handle raw data submissions from core-lane.
@@ -68,52 +242,76 @@ async def submit_handler(request):
             f"Received {len(data)} bytes from {forwarded_from or 'unknown source'}"
         )
 
-        # Try to parse as JSON if possible
+        # Decode the lane envelope (or a legacy JSON mint). Anything else is
+        # rejected so the derived lane node records the transaction as failed
         try:
-            # Try to decode as UTF-8 and parse as JSON
-            json_str = data.decode("utf-8")
-            json_data = json.loads(json_str)
-
-            # Check if it's a mint request
-            if isinstance(json_data, dict) and (
-                "token_id" in json_data or "metadata" in json_data
-            ):
-                # Process as NFT mint request
-                token_id = json_data.get("token_id")
-                metadata = json_data.get("metadata", {})
-                owner = user or json_data.get("owner", "unknown")
-
-                # Auto-generate token_id if not provided
-                if not token_id:
-                    global next_token_id
-                    token_id = str(next_token_id)
-                    next_token_id += 1
-                else:
-                    token_id = str(token_id)
-
-                # Check if token already exists
-                if token_id not in nft_store:
-                    nft_store[token_id] = {
-                        "owner": owner,
-                        "metadata": metadata,
-                        "minted_at": datetime.now(timezone.utc).isoformat(),
-                    }
-                    logger.info(
-                        f"Minted NFT from core-lane submission: token_id={token_id}, owner={owner}"
-                    )
-                else:
-                    logger.info(f"Token {token_id} already exists, skipping mint")
+            operation = decode_operation(data)
+        except ValueError as e:
+            logger.info(f"Rejected {len(data)} bytes: {e}")
+            return web.json_response(
+                {"status": "error", "message": f"Unrecognized payload: {e}"},
+                status=400,
+                headers=cors_headers(),
+            )
 
-        except (UnicodeDecodeError, json.JSONDecodeError):
-            # Not JSON, process as raw data
-            logger.info(f"Processing {len(data)} bytes of raw data")
-            # Could extract NFT data from binary format if needed
+        if operation["op"] in ("transfer", "burn"):
+            return execute_owner_operation(operation, user, data)
+
+        # Process as NFT mint request
+        token_id = operation.get("token_id")
+        metadata = operation.get("metadata", {})
+        # The payload's owner receives the token; without one, the submitter
+        owner = operation.get("owner") or user or "unknown"
+
+        # Auto-generate token_id if not provided
+        if not token_id:
+            global next_token_id
+            token_id = str(next_token_id)
+            next_token_id += 1
+        else:
+            token_id = str(token_id)
+
+        # Check if token already exists
+        if token_id in nft_store:
+            logger.info(f"Token {token_id} already exists, rejecting mint")
+            return web.json_response(
+                {
+                    "status": "error",
+                    "message": f"Token {token_id} already exists",
+                },
+                status=409,
+                headers=cors_headers(),
+            )
+
+        minted_at = datetime.now(timezone.utc).isoformat()
+        digest = hashlib.sha256(data).hexdigest()
+        nft_store[token_id] = {
+            "owner": owner,
+            "metadata": metadata,
+            "minted_at": minted_at,
+            "payload_digest": digest,
+        }
+        operation_log.append(
+            {
+                "op": "mint",
+                "token_id": token_id,
+                "sender": user,
+                "from": None,
+                "to": owner,
+                "payload_digest": digest,
+                "executed_at": minted_at,
+            }
+        )
+        logger.info(
+            f"Minted NFT from core-lane submission: token_id={token_id}, owner={owner}"
+        )
 
         return web.json_response(
             {
                 "status": "ok",
                 "message": "Submission processed successfully",
                 "bytes_received": len(data),
+                "token_id": token_id,
             },
             status=200,
             headers=cors_headers(),
@@ -127,18 +325,136 @@ async def submit_handler(request):
         )
 
 
+def token_view(token_id: str) -> Dict:
+    """Public representation of a stored NFT"""
+    nft = nft_store[token_id]
+    return {
+        "token_id": token_id,
+        "owner": nft["owner"],
+        "metadata": nft["metadata"],
+        "minted_at": nft["minted_at"],
+        "payload_digest": nft.get("payload_digest"),
+    }
+
+
+async def get_token_handler(request):
+    """Look up a single NFT by token_id"""
+    token_id = request.match_info["token_id"]
+    if token_id not in nft_store:
+        return web.json_response(
+            {"status": "error", "message": f"Token {token_id} not found"},
+            status=404,
+            headers=cors_headers(),
+        )
+    return web.json_response(token_view(token_id), headers=cors_headers())
+
+
+async def list_tokens_handler(request):
+    """
+    List NFTs in mint order, optionally filtered by owner or payload digest.
+
+    Query parameters: owner, digest, offset (default 0), limit (default 20,
+    max 100).
+    """
+    owner: Optional[str] = request.query.get("owner")
+    digest: Optional[str] = request.query.get("digest")
+    try:
+        offset = max(int(request.query.get("offset", 0)), 0)
+        limit = min(max(int(request.query.get("limit", 20)), 0), 100)
+    except ValueError:
+        return web.json_response(
+            {"status": "error", "message": "offset and limit must be integers"},
+            status=400,
+            headers=cors_headers(),
+        )
+
+    # Owners are usually addresses, so compare case-insensitively
+    token_ids = [
+        token_id
+        for token_id, nft in nft_store.items()
+        if (owner is None or str(nft["owner"]).lower() == owner.lower())
+        and (digest is None or nft.get("payload_digest") == digest)
+    ]
+
+    return web.json_response(
+        {
+            "tokens": [token_view(t) for t in token_ids[offset : offset + limit]],
+            "total": len(token_ids),
+            "offset": offset,
+            "limit": limit,
+        },
+        headers=cors_headers(),
+    )
+
+
+async def list_operations_handler(request):
+    """
+    Executed mints, transfers and burns in order, optionally filtered by
+    payload digest, token_id or sender (case-insensitive).
+
+    Query parameters: digest, token_id, sender, offset (default 0), limit
+    (default 20, max 100).
+    """
+    digest: Optional[str] = request.query.get("digest")
+    token_id: Optional[str] = request.query.get("token_id")
+    sender: Optional[str] = request.query.get("sender")
+    try:
+        offset = max(int(request.query.get("offset", 0)), 0)
+        limit = min(max(int(request.query.get("limit", 20)), 0), 100)
+    except ValueError:
+        return error_response("offset and limit must be integers", 400)
+
+    entries = [
+        entry
+        for entry in operation_log
+        if (digest is None or entry["payload_digest"] == digest)
+        and (token_id is None or entry["token_id"] == token_id)
+        and (sender is None or (entry["sender"] or "").lower() == sender.lower())
+    ]
+
+    return web.json_response(
+        {
+            "operations": entries[offset : offset + limit],
+            "total": len(entries),
+            "offset": offset,
+            "limit": limit,
+        },
+        headers=cors_headers(),
+    )
+
+
+async def supply_handler(request):
+    """Total number of minted NFTs"""
+    return web.json_response(
+        {"total_supply": len(nft_store)}, headers=cors_headers()
+    )
+
+
 async def options_handler(request):
     """Handle CORS preflight requests"""
     return web.Response(headers=cors_headers())
 
 
+@web.middleware
+async def request_id_middleware(request, handler):
+    """Tag everything logged while handling a request with its X-Request-Id"""
+    request_id.set(request.headers.get("X-Request-Id") or "-")
+    return await handler(request)
+
+
 # Set up routes
-app = web.Application()
+app = web.Application(middlewares=[request_id_middleware])
 
 # API routes
 app.router.add_get("/health", health)
 app.router.add_post("/submit", submit_handler)
 
+# Read-only lane state queries (used by the frontend RPC bridge)
+app.router.add_get("/nfts", list_tokens_handler)
+app.router.add_get("/nfts/{token_id}", get_token_handler)
+app.router.add_get("/supply", supply_handler)
+app.router.add_get("/operations", list_operations_handler)
+
 # CORS preflight
 app.router.add_options("/{path:.*}", options_handler)
 
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { renderMetrics } from "@/lib/bridge/metrics";
+
+/**
+ * Prometheus scrape endpoint for the RPC bridge
+ *
+ * GET /api/metrics returns request, error, backend, forwarding and rate limit
+ * metrics in the Prometheus text format (see lib/bridge/metrics for the
+ * list). Counters are per process: scrape every instance.
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return new NextResponse(await renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
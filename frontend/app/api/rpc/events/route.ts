@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { corsHeaders, isOriginAllowed } from "@/lib/bridge/cors";
+import { JSON_RPC_ERRORS } from "@/lib/bridge/errors";
+import { subscribeBridgeEvents } from "@/lib/bridge/events";
+import {
+  clientIp,
+  consumeClientLimit,
+  RateLimitError,
+} from "@/lib/bridge/limits";
+import { LogFilter, matchesLogFilter } from "@/lib/bridge/logs";
+import { InvalidParamsError, logFilter } from "@/lib/bridge/params";
+import { retainTransactionWatcher } from "@/lib/bridge/watcher";
+import { LANE_SUBSCRIPTIONS, LaneSubscription } from "@/lib/nft-types";
+
+/**
+ * Live event stream for the RPC bridge (server-sent events)
+ *
+ * GET /api/rpc/events?subscribe=newHeads,logs&filter={"topics":[...]}
+ *
+ * Each requested subscription gets an id, sent first as a `subscribed` event
+ * ({ name: id }). Events then arrive as eth_subscription notifications, the
+ * same messages eth_subscribe pushes over a websocket:
+ *
+ *   event: newHeads
+ *   data: {"jsonrpc":"2.0","method":"eth_subscription",
+ *          "params":{"subscription":"0x…","result":{…}}}
+ *
+ * `subscribe` defaults to every subscription (see LANE_SUBSCRIPTIONS);
+ * `filter` is an eth_getLogs-style { address, topics } applied to `logs`.
+ * A comment line is sent every 15s to keep proxies from closing the stream.
+ *
+ * Opening a stream counts as one read against the client's rate limit, and
+ * only allowed origins may open one from a browser (see lib/bridge/cors).
+ */
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL = 15_000;
+
+function errorResponse(
+  request: NextRequest,
+  status: number,
+  error: { code: number; message: string; data?: unknown },
+  headers: Record<string, string> = {}
+) {
+  return NextResponse.json(
+    { jsonrpc: "2.0", id: null, error },
+    { status, headers: { ...corsHeaders(request, "GET"), ...headers } }
+  );
+}
+
+function badRequest(request: NextRequest, message: string) {
+  return errorResponse(request, 400, {
+    code: JSON_RPC_ERRORS.INVALID_PARAMS,
+    message,
+  });
+}
+
+export async function GET(request: NextRequest) {
+  if (!isOriginAllowed(request)) {
+    return errorResponse(request, 403, {
+      code: JSON_RPC_ERRORS.INVALID_REQUEST,
+      message: "Origin not allowed",
+    });
+  }
+  try {
+    consumeClientLimit(clientIp(request.headers), "eth_subscribe");
+  } catch (error) {
+    if (!(error instanceof RateLimitError)) throw error;
+    return errorResponse(
+      request,
+      429,
+      { code: error.code, message: error.message, data: error.data },
+      { "Retry-After": String(error.retryAfter) }
+    );
+  }
+
+  const params = request.nextUrl.searchParams;
+
+  const requested = params.get("subscribe")
+    ? params
+        .get("subscribe")!
+        .split(",")
+        .map((name) => name.trim())
+    : LANE_SUBSCRIPTIONS;
+  const unknown = requested.filter(
+    (name) => !LANE_SUBSCRIPTIONS.includes(name as LaneSubscription)
+  );
+  if (unknown.length > 0) {
+    return badRequest(request, `Unknown subscription: ${unknown.join(", ")}`);
+  }
+
+  let filter: LogFilter = {};
+  if (params.get("filter")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(params.get("filter")!);
+    } catch {
+      return badRequest(request, "filter must be JSON");
+    }
+    // Checked like an eth_getLogs filter, so matching can't throw later
+    try {
+      filter = logFilter("filter").parse(parsed, 0);
+    } catch (error) {
+      if (!(error instanceof InvalidParamsError)) throw error;
+      return badRequest(request, error.message);
+    }
+  }
+
+  const ids = Object.fromEntries(
+    requested.map((name) => [
+      name,
+      `0x${crypto.randomBytes(16).toString("hex")}`,
+    ])
+  ) as Partial<Record<LaneSubscription, string>>;
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      let sequence = 0;
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeBridgeEvents((event) => {
+        const subscription = ids[event.type];
+        if (!subscription) return;
+        if (event.type === "logs" && !matchesLogFilter(event.result, filter)) {
+          return;
+        }
+        const message = {
+          jsonrpc: "2.0",
+          method: "eth_subscription",
+          params: { subscription, result: event.result },
+        };
+        send(
+          `event: ${event.type}\nid: ${++sequence}\ndata: ${JSON.stringify(
+            message
+          )}\n\n`
+        );
+      });
+      const release = retainTransactionWatcher();
+      const heartbeat = setInterval(
+        () => send(": heartbeat\n\n"),
+        HEARTBEAT_INTERVAL
+      );
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        release();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener("abort", cleanup);
+
+      send(`retry: 3000\nevent: subscribed\ndata: ${JSON.stringify(ids)}\n\n`);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      ...corsHeaders(request, "GET"),
+    },
+  });
+}
@@ -1,6 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
-import crypto from "crypto";
-import { parseTransaction, recoverTransactionAddress } from "viem";
+import { toHex } from "viem";
+import { checkBackends } from "@/lib/bridge/backend";
+import { JSON_RPC_ERRORS, RpcError } from "@/lib/bridge/errors";
+import { getBridgeStore } from "@/lib/bridge/store";
+import { walletSessionMethods } from "@/lib/bridge/wallet-compat";
+import { clientIp, consumeClientLimit } from "@/lib/bridge/limits";
+import { corsHeaders, isOriginAllowed } from "@/lib/bridge/cors";
+import {
+  getRequestContext,
+  logger,
+  REQUEST_ID_HEADER,
+  requestIdFrom,
+  runWithRequestContext,
+} from "@/lib/bridge/logger";
+import { recordRpcRequest } from "@/lib/bridge/metrics";
+import { callRpcMethod, getRpcMethod } from "@/lib/bridge/registry";
+import "@/lib/bridge/methods";
+import { getBridgeLane } from "@/lib/lanes";
 
 /**
  * Production JSON-RPC Bridge for Derived Lane
@@ -10,61 +26,48 @@ import { parseTransaction, recoverTransactionAddress } from "viem";
  *
  * Flow: Frontend → Viem Client → /api/rpc → Backend /submit → NFT Minting
  *
- * Supported Methods:
- * - eth_sendTransaction: Forwards transaction data to backend /submit
- * - eth_sendRawTransaction: Forwards signed transaction data to backend /submit
- * - eth_getTransactionCount: Returns nonce for account
- * - eth_chainId: Returns derived lane chain ID
- * - eth_estimateGas: Returns gas estimate
- * - eth_gasPrice: Returns gas price
- * - eth_getBalance: Returns account balance
- * - eth_getTransactionReceipt: Returns transaction receipt
+ * Accepts single requests and JSON-RPC 2.0 batches (arrays of requests, up to
+ * RPC_MAX_BATCH_SIZE entries). Requests without an `id` are treated as
+ * notifications: they are executed but get no response entry.
+ *
+ * Requests are rate limited per client IP (separate read and write budgets),
+ * transactions per sender, and mints by a daily quota per sender; see
+ * lib/bridge/limits. Browsers may call the bridge from the app itself and the
+ * origins in RPC_ALLOWED_ORIGINS only (lib/bridge/cors).
+ *
+ * Methods are looked up in the registry (lib/bridge/registry), which checks
+ * their params before the handler runs; the bridge's own methods are in
+ * lib/bridge/methods:
+ * - chain.ts: chain ID, node info, blocks, fees, eth_call/eth_estimateGas
+ * - transactions.ts: sending, nonces, transactions, receipts and
+ *   lane_getTransactionStatus
+ * - logs.ts: eth_getLogs and log/block filters
+ * - nft.ts: token queries read from lane state (nft_*)
+ *
+ * Forwarded transactions, stage changes, new blocks, Transfer logs and token
+ * changes are also pushed live over server-sent events: see
+ * app/api/rpc/events/route.ts (eth_subscribe-style newHeads and logs).
+ *
+ * Every request is logged as one JSON line with its request id, method,
+ * sender, transaction hash, latency and outcome (lib/bridge/logger). The id
+ * is returned as X-Request-Id and sent on to the derived lane node.
+ *
+ * GET returns a health summary with the reachability and latency of each
+ * derived lane node (lib/bridge/backend); GET ?check=wallet runs the methods
+ * of a typical wallet session (lib/bridge/wallet-compat) and reports failures,
+ * subject to the same origin check and rate limits as POST.
  */
 
-const BACKEND_URL = process.env.BACKEND_URL || "http://localhost:9545";
-const CHAIN_ID = "0x7a69"; // 31337 in hex (Anvil default)
-
-// In-memory transaction storage for receipts
-const transactions = new Map<
-  string,
-  {
-    hash: string;
-    from: string;
-    to: string;
-    data: string;
-    timestamp: number;
-    status: "pending" | "success" | "failed";
-    blockNumber: string;
-  }
->();
-
-// Simple nonce tracker per address
-const nonces = new Map<string, number>();
-
-// JSON-RPC error codes
-const JSON_RPC_ERRORS = {
-  PARSE_ERROR: -32700,
-  INVALID_REQUEST: -32600,
-  METHOD_NOT_FOUND: -32601,
-  INVALID_PARAMS: -32602,
-  INTERNAL_ERROR: -32603,
-};
-
-interface EthTransaction {
-  from?: string;
-  to?: string;
-  data?: string;
-  gas?: string;
-  gasPrice?: string;
-  nonce?: string;
-  value?: string;
-}
+// The lane this bridge serves (see lib/lanes and lanes.config.json)
+const lane = getBridgeLane();
+const CHAIN_ID = toHex(lane.chainId);
+const MAX_BATCH_SIZE = Number(process.env.RPC_MAX_BATCH_SIZE || 100);
 
 interface JsonRpcRequest {
   jsonrpc: string;
-  id: number | string;
+  id?: number | string | null;
   method: string;
-  params?: (string | number | boolean | EthTransaction | null)[];
+  params?: unknown[];
 }
 
 interface JsonRpcResponse {
@@ -74,536 +77,337 @@ interface JsonRpcResponse {
   error?: {
     code: number;
     message: string;
-    data?: string;
+    data?: unknown;
   };
 }
 
-function log(message: string, data?: unknown) {
-  // Cleaner, more readable log format
-  const emoji = message.includes("✅")
-    ? ""
-    : message.includes("❌")
-    ? ""
-    : message.includes("📤")
-    ? ""
-    : message.includes("📦")
-    ? ""
-    : "→";
-  if (data) {
-    // For transaction data, show a cleaner format
-    if (typeof data === "object" && data !== null && "from" in data) {
-      const txData = data as { from?: string; to?: string; data?: string };
-      console.log(
-        `[RPC] ${emoji} ${message}`,
-        `From: ${txData.from?.slice(0, 10)}... | To: ${txData.to?.slice(
-          0,
-          10
-        )}...`
-      );
-    } else {
-      console.log(`[RPC] ${emoji} ${message}`, data);
-    }
-  } else {
-    console.log(`[RPC] ${emoji} ${message}`);
+/**
+ * Check that an entry has the shape of a JSON-RPC 2.0 request. A missing `id`
+ * is allowed: per the spec that marks the request as a notification.
+ */
+function isJsonRpcRequest(body: unknown): body is JsonRpcRequest {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return false;
   }
+  const entry = body as Record<string, unknown>;
+  return (
+    entry.jsonrpc === "2.0" &&
+    typeof entry.method === "string" &&
+    entry.method.length > 0 &&
+    (entry.id === undefined ||
+      entry.id === null ||
+      typeof entry.id === "string" ||
+      typeof entry.id === "number") &&
+    (entry.params === undefined || Array.isArray(entry.params))
+  );
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const body: JsonRpcRequest = await request.json();
-
-    // Validate JSON-RPC structure
-    if (
-      !body.jsonrpc ||
-      body.jsonrpc !== "2.0" ||
-      !body.method ||
-      body.id === undefined
-    ) {
-      log("Invalid JSON-RPC request", body);
-      return NextResponse.json({
-        jsonrpc: "2.0",
-        id: body.id || null,
-        error: {
-          code: JSON_RPC_ERRORS.INVALID_REQUEST,
-          message: "Invalid JSON-RPC request",
-        },
-      } as JsonRpcResponse);
-    }
-
-    log(`← ${body.method}`, body.params);
-
-    // Handle different RPC methods
-    switch (body.method) {
-      case "eth_fillTransaction": {
-        // Viem uses this to fill in missing transaction fields
-        const [tx] = body.params || [];
-        const txParam = tx as EthTransaction;
-        const filledTx = {
-          ...txParam,
-          gas: txParam.gas || "0x5208",
-          gasPrice: txParam.gasPrice || "0x3b9aca00",
-          nonce: txParam.nonce || "0x0",
-          chainId: CHAIN_ID,
-        };
-        log("→ eth_fillTransaction", filledTx);
-        return NextResponse.json({
-          jsonrpc: "2.0",
-          id: body.id,
-          result: filledTx,
-        } as JsonRpcResponse);
-      }
-
-      case "eth_getBlockByNumber": {
-        const [blockNumber, fullTx] = body.params || ["latest", false];
-        const block = {
-          number: "0x1",
-          hash: `0x${crypto
-            .createHash("sha256")
-            .update("block1")
-            .digest("hex")}`,
-          parentHash: `0x${"0".repeat(64)}`,
-          timestamp: `0x${Math.floor(Date.now() / 1000).toString(16)}`,
-          gasLimit: "0x1c9c380",
-          gasUsed: "0x5208",
-          miner: "0x0000000000000000000000000000000000000000",
-          difficulty: "0x0",
-          totalDifficulty: "0x0",
-          size: "0x200",
-          transactions: fullTx ? [] : [],
-          baseFeePerGas: "0x3b9aca00",
-        };
-        log(`→ eth_getBlockByNumber: ${blockNumber}`, block);
-        return NextResponse.json({
-          jsonrpc: "2.0",
-          id: body.id,
-          result: block,
-        } as JsonRpcResponse);
-      }
-
-      case "eth_getTransactionCount": {
-        const [address] = body.params || [];
-        const addressStr = address as string;
-        if (!addressStr) {
-          return NextResponse.json({
-            jsonrpc: "2.0",
-            id: body.id,
-            error: {
-              code: JSON_RPC_ERRORS.INVALID_PARAMS,
-              message: "Address is required",
-            },
-          } as JsonRpcResponse);
-        }
-
-        const nonce = nonces.get(addressStr.toLowerCase()) || 0;
-        const hexNonce = `0x${nonce.toString(16)}`;
-        log(`→ eth_getTransactionCount: ${hexNonce} for ${addressStr}`);
-
-        return NextResponse.json({
-          jsonrpc: "2.0",
-          id: body.id,
-          result: hexNonce,
-        } as JsonRpcResponse);
-      }
-
-      case "eth_estimateGas": {
-        // Return a reasonable gas estimate
-        const gasEstimate = "0x5208"; // 21000 in hex (standard transfer)
-        log(`→ eth_estimateGas: ${gasEstimate}`);
-
-        return NextResponse.json({
-          jsonrpc: "2.0",
-          id: body.id,
-          result: gasEstimate,
-        } as JsonRpcResponse);
-      }
-
-      case "eth_gasPrice": {
-        // Return 1 gwei
-        const gasPrice = "0x3b9aca00"; // 1 gwei in hex
-        log(`→ eth_gasPrice: ${gasPrice}`);
-
-        return NextResponse.json({
-          jsonrpc: "2.0",
-          id: body.id,
-          result: gasPrice,
-        } as JsonRpcResponse);
-      }
-
-      case "eth_getBalance": {
-        const [address] = body.params || [];
-        const addressStr = address as string;
-        // Return 1000 ETH for all addresses
-        const balance = "0x3635c9adc5dea00000"; // 1000 ETH in hex
-        log(`→ eth_getBalance: ${balance} for ${addressStr}`);
-
-        return NextResponse.json({
-          jsonrpc: "2.0",
-          id: body.id,
-          result: balance,
-        } as JsonRpcResponse);
-      }
-      case "eth_sendTransaction": {
-        // Extract transaction data
-        const [tx] = body.params || [];
-        const txParam = tx as EthTransaction;
-
-        if (!txParam) {
-          log("❌ Missing transaction");
-          return NextResponse.json({
-            jsonrpc: "2.0",
-            id: body.id,
-            error: {
-              code: JSON_RPC_ERRORS.INVALID_PARAMS,
-              message: "Transaction is required",
-            },
-          } as JsonRpcResponse);
-        }
-
-        log("📤 Forwarding transaction to Derived Lane RPC", {
-          from: txParam.from,
-          to: txParam.to,
-        });
-
-        // Forward the transaction to the Derived Lane RPC
-        // Note: eth_sendTransaction requires the transaction to be signed first
-        // This is typically done by the wallet, so we forward it as-is
-        const derivedLaneResponse = await fetch(BACKEND_URL, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            jsonrpc: "2.0",
-            id: body.id,
-            method: "eth_sendTransaction",
-            params: [txParam],
-          }),
-        });
-
-        if (!derivedLaneResponse.ok) {
-          const errorText = await derivedLaneResponse.text();
-          log("❌ Derived Lane RPC error", errorText);
-          return NextResponse.json({
-            jsonrpc: "2.0",
-            id: body.id,
-            error: {
-              code: JSON_RPC_ERRORS.INTERNAL_ERROR,
-              message: "Backend submission failed",
-              data: errorText,
-            },
-          } as JsonRpcResponse);
-        }
-
-        const derivedLaneResult = await derivedLaneResponse.json();
-
-        if (derivedLaneResult.error) {
-          log("❌ Derived Lane RPC returned error", derivedLaneResult.error);
-          return NextResponse.json({
-            jsonrpc: "2.0",
-            id: body.id,
-            error: {
-              code:
-                derivedLaneResult.error.code || JSON_RPC_ERRORS.INTERNAL_ERROR,
-              message:
-                derivedLaneResult.error.message || "Backend submission failed",
-              data: derivedLaneResult.error.data,
-            },
-          } as JsonRpcResponse);
-        }
-
-        const txHash = derivedLaneResult.result as string;
-        log(
-          `✅ Transaction successful! Hash: ${txHash.slice(
-            0,
-            10
-          )}...${txHash.slice(-8)}`
-        );
-
-        // Store transaction for receipt lookup
-        const blockNumber = "0x1";
-
-        transactions.set(txHash, {
-          hash: txHash,
-          from: txParam.from || "0x0",
-          to: txParam.to || "0x0000000000000000000000000000000000000042",
-          data: txParam.data || "0x",
-          timestamp: Date.now(),
-          status: "success",
-          blockNumber,
-        });
-
-        // Increment nonce for sender
-        const fromAddress = (txParam.from || "0x0").toLowerCase();
-        nonces.set(fromAddress, (nonces.get(fromAddress) || 0) + 1);
+/**
+ * Handle a single JSON-RPC request object (standalone or one entry of a
+ * batch) from the client at `ip`. Returns `null` for notifications, which
+ * must not be answered.
+ */
+async function handleRpcRequest(
+  body: unknown,
+  ip: string
+): Promise<JsonRpcResponse | null> {
+  if (!isJsonRpcRequest(body)) {
+    logger.warn("invalid request", { body });
+    recordRpcRequest("invalid", 0, JSON_RPC_ERRORS.INVALID_REQUEST);
+    const id = (body as { id?: unknown } | null)?.id;
+    return {
+      jsonrpc: "2.0",
+      id: typeof id === "string" || typeof id === "number" ? id : null,
+      error: {
+        code: JSON_RPC_ERRORS.INVALID_REQUEST,
+        message: "Invalid JSON-RPC request",
+      },
+    };
+  }
 
-        return NextResponse.json({
-          jsonrpc: "2.0",
-          id: body.id,
-          result: txHash,
-        } as JsonRpcResponse);
+  const isNotification = body.id === undefined;
+  const id = body.id ?? null;
+
+  // Each entry gets its own context (method, sender, tx hash, backend time)
+  // under the HTTP request's id
+  const requestId = getRequestContext()?.requestId ?? crypto.randomUUID();
+  return runWithRequestContext(
+    { requestId, ip, method: body.method },
+    async () => {
+      const started = Date.now();
+      let response: JsonRpcResponse;
+      try {
+        // Every entry of a batch counts against the client's budget
+        consumeClientLimit(ip, body.method);
+        response = await dispatch({ ...body, id });
+      } catch (error) {
+        response = errorResponse(id, error);
       }
+      recordOutcome(response, Date.now() - started);
+      return isNotification ? null : response;
+    }
+  );
+}
 
-      case "eth_sendRawTransaction": {
-        // Extract and decode signed raw transaction
-        const [rawTx] = body.params || [];
-        const rawTxHex = rawTx as string;
-
-        if (!rawTxHex || typeof rawTxHex !== "string") {
-          log("❌ Missing raw transaction");
-          return NextResponse.json({
-            jsonrpc: "2.0",
-            id: body.id,
-            error: {
-              code: JSON_RPC_ERRORS.INVALID_PARAMS,
-              message: "Raw transaction is required",
-            },
-          } as JsonRpcResponse);
-        }
-
-        let parsedTx;
-        let fromAddress: string;
-        try {
-          // Use Viem to parse the signed transaction
-          const serializedTx = rawTxHex as `0x${string}`;
-          parsedTx = parseTransaction(serializedTx);
-
-          // Recover the sender address from the signature
-          // Type assertion needed because rawTxHex is validated as a valid transaction
-          fromAddress = await recoverTransactionAddress({
-            serializedTransaction: serializedTx as `0x02${string}`,
-          });
-
-          log("📦 Parsed raw transaction", {
-            from: fromAddress,
-            to: parsedTx.to,
-            data: parsedTx.data,
-          });
-        } catch (error) {
-          log("❌ Failed to parse raw transaction", error);
-          return NextResponse.json({
-            jsonrpc: "2.0",
-            id: body.id,
-            error: {
-              code: JSON_RPC_ERRORS.INVALID_PARAMS,
-              message: "Invalid raw transaction format",
-            },
-          } as JsonRpcResponse);
-        }
-
-        if (!parsedTx.data || parsedTx.data === "0x") {
-          log("❌ No data in raw transaction");
-          return NextResponse.json({
-            jsonrpc: "2.0",
-            id: body.id,
-            error: {
-              code: JSON_RPC_ERRORS.INVALID_PARAMS,
-              message: "Transaction data is required",
-            },
-          } as JsonRpcResponse);
-        }
-
-        log("📤 Forwarding transaction to Derived Lane", {
-          from: fromAddress,
-          to: parsedTx.to,
-        });
-
-        // Forward the raw transaction to the Derived Lane RPC
-        // The Derived Lane node will handle forwarding to Core Lane and execution
-        const derivedLaneResponse = await fetch(BACKEND_URL, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            jsonrpc: "2.0",
-            id: body.id,
-            method: "eth_sendRawTransaction",
-            params: [rawTxHex],
-          }),
-        });
-
-        if (!derivedLaneResponse.ok) {
-          const errorText = await derivedLaneResponse.text();
-          log("❌ Derived Lane RPC error", errorText);
-          return NextResponse.json({
-            jsonrpc: "2.0",
-            id: body.id,
-            error: {
-              code: JSON_RPC_ERRORS.INTERNAL_ERROR,
-              message: "Backend submission failed",
-              data: errorText,
-            },
-          } as JsonRpcResponse);
-        }
+function errorResponse(
+  id: number | string | null,
+  error: unknown
+): JsonRpcResponse {
+  if (error instanceof RpcError) {
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: {
+        code: error.code,
+        message: error.message,
+        data: error.data,
+      },
+    };
+  }
+  // Not one of ours: keep the stack for whoever picks this up
+  logger.error("rpc handler failed", {
+    error,
+    stack: error instanceof Error ? error.stack : undefined,
+  });
+  return {
+    jsonrpc: "2.0",
+    id,
+    error: {
+      code: JSON_RPC_ERRORS.INTERNAL_ERROR,
+      message: error instanceof Error ? error.message : "Internal server error",
+    },
+  };
+}
 
-        const derivedLaneResult = await derivedLaneResponse.json();
+// One log line and one metrics sample per JSON-RPC request
+function recordOutcome(response: JsonRpcResponse, latencyMs: number) {
+  const context = getRequestContext();
+  const method = context?.method ?? "unknown";
+  recordRpcRequest(
+    // Method names come from clients: only label the registered ones
+    getRpcMethod(method) ? method : "other",
+    latencyMs,
+    response.error?.code
+  );
+  const fields = {
+    id: response.id,
+    outcome: response.error ? "error" : "ok",
+    code: response.error?.code,
+    error: response.error?.message,
+    latencyMs,
+    backendMs: context?.backendMs,
+  };
+  if (!response.error) logger.info("rpc request", fields);
+  else if (response.error.code === JSON_RPC_ERRORS.INTERNAL_ERROR) {
+    logger.error("rpc request", fields);
+  } else logger.warn("rpc request", fields);
+}
 
-        if (derivedLaneResult.error) {
-          log("❌ Derived Lane RPC returned error", derivedLaneResult.error);
-          return NextResponse.json({
-            jsonrpc: "2.0",
-            id: body.id,
-            error: {
-              code:
-                derivedLaneResult.error.code || JSON_RPC_ERRORS.INTERNAL_ERROR,
-              message:
-                derivedLaneResult.error.message || "Backend submission failed",
-              data: derivedLaneResult.error.data,
-            },
-          } as JsonRpcResponse);
-        }
+/**
+ * JSON response with the request id, the CORS headers for the request's
+ * origin and, when any entry hit a rate limit, a Retry-After header with the
+ * longest wait.
+ */
+function respond(
+  request: NextRequest,
+  payload: JsonRpcResponse | JsonRpcResponse[] | null,
+  status = 200
+) {
+  const headers = new Headers(corsHeaders(request, "POST, OPTIONS"));
+  const requestId = getRequestContext()?.requestId;
+  if (requestId) headers.set(REQUEST_ID_HEADER, requestId);
+  const retryAfter = Math.max(
+    0,
+    ...[payload ?? []].flat().map((response) => {
+      const data = response.error?.data as { retryAfter?: number } | undefined;
+      return response.error?.code === JSON_RPC_ERRORS.LIMIT_EXCEEDED
+        ? data?.retryAfter ?? 0
+        : 0;
+    })
+  );
+  if (retryAfter > 0) headers.set("Retry-After", String(retryAfter));
+
+  return payload === null
+    ? new NextResponse(null, { status: 204, headers })
+    : NextResponse.json(payload, { status, headers });
+}
 
-        const txHash = derivedLaneResult.result as string;
-        log(
-          `✅ Transaction successful! Hash: ${txHash.slice(
-            0,
-            10
-          )}...${txHash.slice(-8)}`
-        );
+export async function POST(request: NextRequest) {
+  return runWithRequestContext(
+    {
+      requestId: requestIdFrom(request.headers),
+      ip: clientIp(request.headers),
+    },
+    () => handlePost(request)
+  );
+}
 
-        // Store transaction for receipt lookup
-        const blockNumber = "0x1";
+// Refusal of a request from a browser origin that is not allowed
+function originRejected(request: NextRequest) {
+  logger.warn("origin rejected", { origin: request.headers.get("origin") });
+  return respond(
+    request,
+    {
+      jsonrpc: "2.0",
+      id: null,
+      error: {
+        code: JSON_RPC_ERRORS.INVALID_REQUEST,
+        message: "Origin not allowed",
+      },
+    },
+    403
+  );
+}
 
-        transactions.set(txHash, {
-          hash: txHash,
-          from: fromAddress,
-          to:
-            (parsedTx.to as string) ||
-            "0x0000000000000000000000000000000000000042",
-          data: parsedTx.data || "0x",
-          timestamp: Date.now(),
-          status: "success",
-          blockNumber,
-        });
+async function handlePost(request: NextRequest) {
+  if (!isOriginAllowed(request)) return originRejected(request);
+  const ip = clientIp(request.headers);
 
-        // Increment nonce for sender
-        nonces.set(
-          fromAddress.toLowerCase(),
-          (nonces.get(fromAddress.toLowerCase()) || 0) + 1
-        );
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    logger.warn("unparseable request body");
+    return respond(request, {
+      jsonrpc: "2.0",
+      id: null,
+      error: {
+        code: JSON_RPC_ERRORS.PARSE_ERROR,
+        message: "Parse error",
+      },
+    });
+  }
 
-        return NextResponse.json({
-          jsonrpc: "2.0",
-          id: body.id,
-          result: txHash,
-        } as JsonRpcResponse);
-      }
+  if (!Array.isArray(body)) {
+    return respond(request, await handleRpcRequest(body, ip));
+  }
 
-      case "eth_chainId": {
-        log(`→ eth_chainId: ${CHAIN_ID}`);
-        return NextResponse.json({
-          jsonrpc: "2.0",
-          id: body.id,
-          result: CHAIN_ID,
-        } as JsonRpcResponse);
-      }
+  if (body.length === 0 || body.length > MAX_BATCH_SIZE) {
+    logger.warn("batch rejected", { size: body.length });
+    return respond(request, {
+      jsonrpc: "2.0",
+      id: null,
+      error: {
+        code: JSON_RPC_ERRORS.INVALID_REQUEST,
+        message:
+          body.length === 0
+            ? "Empty batch"
+            : `Batch size exceeds limit of ${MAX_BATCH_SIZE}`,
+      },
+    });
+  }
 
-      case "eth_accounts": {
-        log("→ eth_accounts: []");
-        return NextResponse.json({
-          jsonrpc: "2.0",
-          id: body.id,
-          result: [],
-        } as JsonRpcResponse);
-      }
+  logger.debug("batch", { size: body.length });
 
-      case "eth_blockNumber": {
-        const blockNum = "0x1";
-        log(`→ eth_blockNumber: ${blockNum}`);
-        return NextResponse.json({
-          jsonrpc: "2.0",
-          id: body.id,
-          result: blockNum,
-        } as JsonRpcResponse);
-      }
+  // Entries run sequentially so transactions from the same sender keep their
+  // nonce order within a batch.
+  const responses: JsonRpcResponse[] = [];
+  for (const entry of body) {
+    const response = await handleRpcRequest(entry, ip);
+    if (response) responses.push(response);
+  }
 
-      case "eth_getTransactionReceipt": {
-        const [txHash] = body.params || [];
-        const txHashStr = txHash as string;
-        const tx = transactions.get(txHashStr);
+  // A batch made up only of notifications gets no response body
+  return respond(request, responses.length > 0 ? responses : null);
+}
 
-        if (!tx) {
-          log(`→ eth_getTransactionReceipt: null (not found: ${txHashStr})`);
-          return NextResponse.json({
-            jsonrpc: "2.0",
-            id: body.id,
-            result: null,
-          } as JsonRpcResponse);
-        }
+async function dispatch(
+  body: JsonRpcRequest & { id: number | string | null }
+): Promise<JsonRpcResponse> {
+  // Write params (signed transactions) are logged once parsed
+  logger.debug("rpc call", {
+    params:
+      getRpcMethod(body.method)?.kind === "write" ? "[redacted]" : body.params,
+  });
 
-        const receipt = {
-          transactionHash: tx.hash,
-          blockNumber: tx.blockNumber,
-          blockHash: `0x${crypto
-            .createHash("sha256")
-            .update("block" + tx.blockNumber)
-            .digest("hex")}`,
-          transactionIndex: "0x0",
-          from: tx.from,
-          to: tx.to,
-          gasUsed: "0x5208",
-          cumulativeGasUsed: "0x5208",
-          effectiveGasPrice: "0x3b9aca00",
-          status: tx.status === "success" ? "0x1" : "0x0",
-          logs: [],
-          logsBloom: "0x" + "0".repeat(512),
-          type: "0x2",
-        };
+  return {
+    jsonrpc: "2.0",
+    id: body.id,
+    result: await callRpcMethod(body.method, body.params),
+  };
+}
 
-        log(`→ eth_getTransactionReceipt: status=${tx.status}`, receipt);
+/**
+ * Run every method of a typical wallet session (see lib/bridge/wallet-compat)
+ * and report the ones that error. Each one is an ordinary request from the
+ * caller: it needs an allowed origin and draws from their read budget, and
+ * running out of it answers 429 instead of a report.
+ */
+async function handleWalletCheck(request: NextRequest) {
+  if (!isOriginAllowed(request)) return originRejected(request);
+  const ip = clientIp(request.headers);
+
+  const failures: { method: string; usedFor: string; error: string }[] = [];
+  const checks = walletSessionMethods();
+  for (const [index, check] of checks.entries()) {
+    const response = await handleRpcRequest(
+      {
+        jsonrpc: "2.0",
+        id: index,
+        method: check.method,
+        params: check.params,
+      },
+      ip
+    );
+    if (response?.error?.code === JSON_RPC_ERRORS.LIMIT_EXCEEDED) {
+      return respond(request, response, 429);
+    }
+    // The sample params are all valid, so any error is a failure
+    if (response?.error) {
+      failures.push({
+        method: check.method,
+        usedFor: check.usedFor,
+        error: response.error.message,
+      });
+    }
+  }
 
-        return NextResponse.json({
-          jsonrpc: "2.0",
-          id: body.id,
-          result: receipt,
-        } as JsonRpcResponse);
-      }
+  const compatible = failures.length === 0;
+  const headers = new Headers(corsHeaders(request, "GET"));
+  const requestId = getRequestContext()?.requestId;
+  if (requestId) headers.set(REQUEST_ID_HEADER, requestId);
+  return NextResponse.json(
+    {
+      compatible,
+      checked: checks.map((check) => check.method),
+      failures,
+    },
+    { status: compatible ? 200 : 503, headers }
+  );
+}
 
-      default: {
-        log(`❌ Unsupported method: ${body.method}`);
-        return NextResponse.json({
-          jsonrpc: "2.0",
-          id: body.id,
-          error: {
-            code: JSON_RPC_ERRORS.METHOD_NOT_FOUND,
-            message: `Method ${body.method} not supported`,
-          },
-        } as JsonRpcResponse);
-      }
-    }
-  } catch (error) {
-    log("❌ RPC Error", error);
-    return NextResponse.json({
-      jsonrpc: "2.0",
-      id: null,
-      error: {
-        code: JSON_RPC_ERRORS.INTERNAL_ERROR,
-        message:
-          error instanceof Error ? error.message : "Internal server error",
+// Health check endpoint; ?check=wallet answers the wallet compatibility report
+export async function GET(request: NextRequest) {
+  if (request.nextUrl.searchParams.get("check") === "wallet") {
+    return runWithRequestContext(
+      {
+        requestId: requestIdFrom(request.headers),
+        ip: clientIp(request.headers),
       },
-    } as JsonRpcResponse);
+      () => handleWalletCheck(request)
+    );
   }
-}
 
-// Health check endpoint
-export async function GET() {
-  return NextResponse.json({
-    status: "ok",
-    service: "nft-lane-rpc-bridge",
-    backend: BACKEND_URL,
-    chain_id: CHAIN_ID,
-    transactions: transactions.size,
-  });
+  // Unhealthy only when no derived lane node answers
+  const backends = await checkBackends();
+  const healthy = backends.some((backend) => backend.reachable);
+  return NextResponse.json(
+    {
+      status: healthy ? "ok" : "unavailable",
+      service: "nft-lane-rpc-bridge",
+      lane: lane.id,
+      backends,
+      chain_id: CHAIN_ID,
+      transactions: await getBridgeStore().countTransactions(),
+    },
+    { status: healthy ? 200 : 503 }
+  );
 }
 
-// Support OPTIONS for CORS
-export async function OPTIONS() {
+// CORS preflight: only allowed origins get the Access-Control headers
+export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
-    status: 200,
-    headers: {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
-    },
+    status: isOriginAllowed(request) ? 200 : 403,
+    headers: corsHeaders(request, "POST, OPTIONS"),
   });
 }
@@ -0,0 +1,33 @@
+import Link from "next/link";
+import BatchMintForm from "@/components/BatchMintForm";
+import LaneSwitcher from "@/components/LaneSwitcher";
+
+export default function BatchMint() {
+  return (
+    <div className="min-h-screen grid grid-rows-[auto_1fr_auto] p-8 pb-20 gap-16 sm:p-20 font-[family-name:var(--font-geist-sans)]">
+      <header className="flex flex-col gap-4 text-center items-center">
+        <h1 className="text-4xl font-bold tracking-tight">Batch Mint</h1>
+        <p className="text-lg text-gray-400 max-w-2xl">
+          Mint many NFTs at once from a CSV or JSON file.
+        </p>
+        <nav className="flex gap-4 text-sm text-gray-400">
+          <Link href="/" className="hover:text-gray-200">
+            Mint
+          </Link>
+          <span className="text-gray-200">Batch</span>
+          <Link href="/gallery" className="hover:text-gray-200">
+            Gallery
+          </Link>
+        </nav>
+      </header>
+
+      <main className="flex flex-col gap-8 items-center w-full max-w-4xl mx-auto">
+        <BatchMintForm />
+      </main>
+
+      <footer className="row-start-3 flex gap-6 flex-wrap items-center justify-center text-gray-500">
+        <LaneSwitcher />
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import Link from "next/link";
+import TokenGallery from "@/components/TokenGallery";
+import LaneSwitcher from "@/components/LaneSwitcher";
+
+export default function Gallery() {
+  return (
+    <div className="min-h-screen grid grid-rows-[auto_1fr_auto] p-8 pb-20 gap-16 sm:p-20 font-[family-name:var(--font-geist-sans)]">
+      <header className="flex flex-col gap-4 text-center items-center">
+        <h1 className="text-4xl font-bold tracking-tight">Collection</h1>
+        <p className="text-lg text-gray-400 max-w-2xl">
+          Every NFT minted on the Derived Lane.
+        </p>
+        <nav className="flex gap-4 text-sm text-gray-400">
+          <Link href="/" className="hover:text-gray-200">
+            Mint
+          </Link>
+          <Link href="/batch" className="hover:text-gray-200">
+            Batch
+          </Link>
+          <span className="text-gray-200">Gallery</span>
+        </nav>
+      </header>
+
+      <main className="flex flex-col gap-8 items-center w-full max-w-5xl mx-auto">
+        <TokenGallery />
+      </main>
+
+      <footer className="row-start-3 flex gap-6 flex-wrap items-center justify-center text-gray-500">
+        <LaneSwitcher />
+      </footer>
+    </div>
+  );
+}
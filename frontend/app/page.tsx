@@ -1,4 +1,7 @@
+import Link from "next/link";
 import MintForm from "@/components/MintForm";
+import LaneSwitcher from "@/components/LaneSwitcher";
+import ActivityFeed from "@/components/ActivityFeed";
 
 export default function Home() {
   return (
@@ -8,17 +11,24 @@ export default function Home() {
         <p className="text-lg text-gray-400 max-w-2xl">
           Mint NFTs directly to the Derived Lane.
         </p>
+        <nav className="flex gap-4 text-sm text-gray-400">
+          <span className="text-gray-200">Mint</span>
+          <Link href="/batch" className="hover:text-gray-200">
+            Batch
+          </Link>
+          <Link href="/gallery" className="hover:text-gray-200">
+            Gallery
+          </Link>
+        </nav>
       </header>
 
       <main className="flex flex-col gap-8 items-center w-full max-w-2xl mx-auto">
         <MintForm />
+        <ActivityFeed />
       </main>
 
       <footer className="row-start-3 flex gap-6 flex-wrap items-center justify-center text-gray-500">
-        <div className="flex gap-2 items-center">
-          <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></div>
-          Derived Lane: http://localhost:3000/api/rpc
-        </div>
+        <LaneSwitcher />
       </footer>
     </div>
   );
@@ -0,0 +1,38 @@
+import Link from "next/link";
+import TokenDetail from "@/components/TokenDetail";
+import LaneSwitcher from "@/components/LaneSwitcher";
+
+export default async function TokenPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <div className="min-h-screen grid grid-rows-[auto_1fr_auto] p-8 pb-20 gap-16 sm:p-20 font-[family-name:var(--font-geist-sans)]">
+      <header className="flex flex-col gap-4 text-center items-center">
+        <h1 className="text-4xl font-bold tracking-tight">Token Details</h1>
+        <nav className="flex gap-4 text-sm text-gray-400">
+          <Link href="/" className="hover:text-gray-200">
+            Mint
+          </Link>
+          <Link href="/batch" className="hover:text-gray-200">
+            Batch
+          </Link>
+          <Link href="/gallery" className="hover:text-gray-200">
+            Gallery
+          </Link>
+        </nav>
+      </header>
+
+      <main className="flex flex-col gap-8 items-center w-full max-w-4xl mx-auto">
+        <TokenDetail tokenId={decodeURIComponent(id)} />
+      </main>
+
+      <footer className="row-start-3 flex gap-6 flex-wrap items-center justify-center text-gray-500">
+        <LaneSwitcher />
+      </footer>
+    </div>
+  );
+}
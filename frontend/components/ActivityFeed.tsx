@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { subscribeLaneEvents, LaneEvent } from '@/lib/lane-client';
+import { shortAddress } from '@/lib/nft-display';
+import { Activity, Blocks, CheckCircle, Flame, Send, Sparkles, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const MAX_ITEMS = 50;
+
+interface FeedItem {
+  key: string;
+  at: number;
+  event: LaneEvent;
+}
+
+const TOKEN_ICONS = { mint: Sparkles, transfer: Send, burn: Flame };
+
+function FeedEntry({ event }: { event: LaneEvent }) {
+  switch (event.subscription) {
+    case 'lane_tokens': {
+      const { op, tokenId, from, to } = event.result;
+      const Icon = TOKEN_ICONS[op];
+      return (
+        <span className="flex items-center gap-2">
+          <Icon className={cn('w-4 h-4', op === 'burn' ? 'text-red-400' : 'text-green-400')} />
+          {op === 'burn' ? 'Burned' : op === 'transfer' ? 'Transferred' : 'Minted'}
+          {op === 'burn' ? (
+            <span className="font-mono">#{tokenId}</span>
+          ) : (
+            <Link href={`/token/${encodeURIComponent(tokenId)}`} className="font-mono underline underline-offset-2">
+              #{tokenId}
+            </Link>
+          )}
+          {op === 'transfer' && from && <span className="text-neutral-500">from {shortAddress(from)}</span>}
+          {to && <span className="text-neutral-500">to {shortAddress(to)}</span>}
+        </span>
+      );
+    }
+    case 'lane_transactions': {
+      const { hash, stage, blockNumber, error } = event.result;
+      return (
+        <span className="flex items-center gap-2" title={error ?? undefined}>
+          {stage === 'failed' ? (
+            <XCircle className="w-4 h-4 text-red-400" />
+          ) : stage === 'executed' ? (
+            <CheckCircle className="w-4 h-4 text-green-400" />
+          ) : (
+            <Activity className="w-4 h-4 text-blue-400" />
+          )}
+          <span className="font-mono">{shortAddress(hash)}</span>
+          <span className="text-neutral-500">
+            {stage}
+            {blockNumber && stage === 'sequenced' && ` in block ${BigInt(blockNumber)}`}
+          </span>
+        </span>
+      );
+    }
+    case 'newHeads':
+      return (
+        <span className="flex items-center gap-2">
+          <Blocks className="w-4 h-4 text-purple-400" />
+          Block {BigInt(event.result.number).toString()}
+          <span className="font-mono text-neutral-500">{shortAddress(event.result.hash)}</span>
+        </span>
+      );
+    default:
+      return null;
+  }
+}
+
+// Live bridge activity: new transactions, stage changes, blocks and token changes as they happen
+export default function ActivityFeed() {
+  const [items, setItems] = useState<FeedItem[]>([]);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    let counter = 0;
+    const unsubscribe = subscribeLaneEvents(
+      (event) => {
+        setItems((prev) => [{ key: `${Date.now()}-${counter++}`, at: Date.now(), event }, ...prev].slice(0, MAX_ITEMS));
+      },
+      {
+        subscriptions: ['newHeads', 'lane_transactions', 'lane_tokens'],
+        onOpen: () => setConnected(true),
+        onError: () => setConnected(false),
+      },
+    );
+    return unsubscribe;
+  }, []);
+
+  return (
+    <section className="w-full bg-neutral-900 border border-neutral-800 rounded-xl p-6 flex flex-col gap-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-neutral-300">Live Activity</span>
+        <span className="flex items-center gap-2 text-xs text-neutral-500">
+          <span className={cn('w-2 h-2 rounded-full', connected ? 'bg-green-500 animate-pulse' : 'bg-neutral-600')}></span>
+          {connected ? 'Live' : 'Connecting...'}
+        </span>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-neutral-500">No activity yet. Mints, transfers and burns will show up here as they happen.</p>
+      ) : (
+        <ul className="flex flex-col gap-2 max-h-80 overflow-auto text-sm text-neutral-300">
+          {items.map((item) => (
+            <li key={item.key} className="flex items-center justify-between gap-4">
+              <FeedEntry event={item.event} />
+              <span className="text-xs text-neutral-600 shrink-0">{new Date(item.at).toLocaleTimeString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
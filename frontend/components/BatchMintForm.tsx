@@ -0,0 +1,263 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { sendBatchMint, validateBatchMint, DEV_MODE } from '@/lib/lane-client';
+import { batchReportCsv, BatchRow, BatchRowResult, BatchRowStatus, parseBatchFile } from '@/lib/batch-mint';
+import { useLaneSigner } from '@/lib/use-lane-signer';
+import { shortAddress } from '@/lib/nft-display';
+import { Loader2, AlertCircle, CheckCircle, Circle, XCircle, Upload, Download, Wallet, RotateCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const STATUS_STYLES: Record<BatchRowStatus, string> = {
+  queued: 'text-neutral-500',
+  sending: 'text-blue-300',
+  retrying: 'text-yellow-300',
+  submitted: 'text-blue-300',
+  executed: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+function StatusIcon({ status }: { status: BatchRowStatus }) {
+  switch (status) {
+    case 'executed':
+      return <CheckCircle className="w-4 h-4 text-green-400" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-red-400" />;
+    case 'retrying':
+      return <RotateCw className="w-4 h-4 animate-spin text-yellow-300" />;
+    case 'queued':
+      return <Circle className="w-4 h-4 text-neutral-600" />;
+    default:
+      return <Loader2 className="w-4 h-4 animate-spin text-blue-400" />;
+  }
+}
+
+export default function BatchMintForm() {
+  const { signerAddress, connecting, walletError, useDevKey, setUseDevKey, connect, getSigner } = useLaneSigner();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [results, setResults] = useState<BatchRowResult[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  const invalidRows = rows.filter((row) => row.issues.length > 0);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setResults(null);
+    setRunError(null);
+    try {
+      const parsed = parseBatchFile(await file.text(), file.name);
+      // Validate every row before anything can be signed
+      const validation = validateBatchMint(parsed.map((row) => row.data));
+      setRows(parsed.map((row, index) => ({ row: index + 1, data: row.data, issues: [...row.issues, ...validation[index]] })));
+      setFileError(null);
+    } catch (err) {
+      setRows([]);
+      setFileError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleMint = async () => {
+    setRunning(true);
+    setRunError(null);
+    setResults(rows.map((row) => ({ row: row.row, data: row.data, status: 'queued', attempts: 0 })));
+
+    try {
+      const final = await sendBatchMint(
+        rows.map((row) => row.data),
+        getSigner(),
+        {
+          onUpdate: (result) =>
+            setResults((prev) => prev && prev.map((existing) => (existing.row === result.row ? result : existing))),
+        },
+      );
+      setResults(final);
+    } catch (err) {
+      setRunError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!results) return;
+    const url = URL.createObjectURL(new Blob([batchReportCsv(results)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `batch-mint-report-${Date.now()}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const counts = results?.reduce<Partial<Record<BatchRowStatus, number>>>((acc, result) => {
+    acc[result.status] = (acc[result.status] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <section className="w-full bg-neutral-900 border border-neutral-800 rounded-xl p-6 shadow-2xl flex flex-col gap-6">
+      <div className="flex flex-col gap-2">
+        <label
+          htmlFor="batch_file"
+          className="border border-dashed border-neutral-700 hover:border-neutral-500 rounded-lg p-6 flex flex-col items-center gap-2 text-neutral-400 cursor-pointer transition-all"
+        >
+          <Upload className="w-6 h-6" />
+          <span className="text-sm">{fileName ?? 'Choose a CSV or JSON file'}</span>
+          <span className="text-xs text-neutral-500">
+            CSV columns: token_id, owner, name, description, image, external_url, attributes (JSON) — or a metadata column with the whole JSON
+          </span>
+        </label>
+        <input id="batch_file" type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} disabled={running} className="hidden" />
+        {fileError && (
+          <div className="flex items-center gap-2 text-sm text-red-300">
+            <AlertCircle className="w-4 h-4 text-red-400" />
+            {fileError}
+          </div>
+        )}
+      </div>
+
+      {rows.length > 0 && (
+        <>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-neutral-300">
+              {rows.length} rows
+              {invalidRows.length > 0 && <span className="text-red-300"> · {invalidRows.length} invalid</span>}
+              {counts && (
+                <span className="text-neutral-500">
+                  {' '}
+                  · {counts.executed ?? 0} executed · {counts.submitted ?? 0} submitted · {counts.failed ?? 0} failed
+                </span>
+              )}
+            </span>
+            {results && !running && (
+              <button type="button" onClick={handleExport} className="flex items-center gap-1 text-neutral-400 hover:text-neutral-200">
+                <Download className="w-4 h-4" />
+                Export report
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-auto border border-neutral-800 rounded-lg">
+            <table className="w-full text-xs">
+              <thead className="bg-neutral-950 text-neutral-500 sticky top-0">
+                <tr>
+                  <th className="text-left p-2">#</th>
+                  <th className="text-left p-2">Token ID</th>
+                  <th className="text-left p-2">Name</th>
+                  <th className="text-left p-2">Status</th>
+                  <th className="text-left p-2">Transaction</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => {
+                  const result = results?.[index];
+                  return (
+                    <tr key={row.row} className="border-t border-neutral-800 align-top">
+                      <td className="p-2 text-neutral-500">{row.row}</td>
+                      <td className="p-2 font-mono text-neutral-300">
+                        {result?.tokenId ? (
+                          <Link href={`/token/${encodeURIComponent(result.tokenId)}`} className="underline underline-offset-2">
+                            {result.tokenId}
+                          </Link>
+                        ) : (
+                          row.data.token_id ?? <span className="text-neutral-600">auto</span>
+                        )}
+                      </td>
+                      <td className="p-2 text-neutral-300">{String(row.data.metadata?.name ?? '')}</td>
+                      <td className="p-2">
+                        {row.issues.length > 0 ? (
+                          <ul className="text-red-300">
+                            {row.issues.map((issue) => (
+                              <li key={`${issue.field}:${issue.message}`}>
+                                <span className="font-mono">{issue.field}</span> {issue.message}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : result ? (
+                          <span className={cn('flex items-center gap-1', STATUS_STYLES[result.status])} title={result.error}>
+                            <StatusIcon status={result.status} />
+                            {result.status}
+                            {result.attempts > 1 && <span className="text-neutral-500">({result.attempts} attempts)</span>}
+                          </span>
+                        ) : (
+                          <span className="text-green-400">valid</span>
+                        )}
+                        {result?.status === 'failed' && result.error && <div className="text-red-300 break-all">{result.error}</div>}
+                      </td>
+                      <td className="p-2 font-mono text-neutral-400 break-all">{result?.hash ?? ''}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <div className="border-t border-neutral-800 pt-4 flex flex-col gap-3">
+        <div className="flex items-center justify-between text-sm">
+          {signerAddress ? (
+            <span className="flex items-center gap-2 text-neutral-300">
+              <span className="w-2 h-2 rounded-full bg-green-500"></span>
+              Signing as{' '}
+              <span className="font-mono" title={signerAddress}>
+                {shortAddress(signerAddress)}
+              </span>
+            </span>
+          ) : (
+            <button
+              type="button"
+              onClick={connect}
+              disabled={connecting}
+              className="border border-neutral-700 hover:border-neutral-500 text-neutral-100 font-medium py-2 px-4 rounded-lg transition-all disabled:opacity-50 flex items-center gap-2"
+            >
+              {connecting ? <Loader2 className="animate-spin w-4 h-4" /> : <Wallet className="w-4 h-4" />}
+              {connecting ? 'Connecting...' : 'Connect Wallet'}
+            </button>
+          )}
+          {DEV_MODE && (
+            <button
+              type="button"
+              onClick={() => setUseDevKey(!useDevKey)}
+              className="text-xs text-neutral-500 hover:text-neutral-300 underline underline-offset-2"
+            >
+              {useDevKey ? 'Use browser wallet' : 'Use dev private key'}
+            </button>
+          )}
+        </div>
+        {walletError && <div className="text-sm text-red-300">{walletError}</div>}
+
+        <button
+          type="button"
+          onClick={handleMint}
+          disabled={running || rows.length === 0 || invalidRows.length > 0 || !signerAddress}
+          className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white font-semibold py-3 px-6 rounded-lg transition-all transform active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {running ? (
+            <>
+              <Loader2 className="animate-spin w-5 h-5" />
+              Minting {rows.length} tokens...
+            </>
+          ) : invalidRows.length > 0 ? (
+            'Fix invalid rows to mint'
+          ) : (
+            `Mint ${rows.length || ''} NFTs`
+          )}
+        </button>
+        {runError && (
+          <div className="flex items-start gap-2 text-sm text-red-300">
+            <AlertCircle className="w-4 h-4 text-red-400 shrink-0" />
+            <span className="break-all">{runError}</span>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
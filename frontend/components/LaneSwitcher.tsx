@@ -0,0 +1,49 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { getDefaultLane, getLane, getSelectedLane, laneRegistry, selectLane } from '@/lib/lanes';
+
+// The selection lives in localStorage; other tabs report changes through `storage` events
+function subscribe(onChange: () => void) {
+  window.addEventListener('storage', onChange);
+  return () => window.removeEventListener('storage', onChange);
+}
+
+// Current lane and its RPC bridge, with a picker when more than one lane is configured
+export default function LaneSwitcher() {
+  const selectedId = useSyncExternalStore(
+    subscribe,
+    () => getSelectedLane().id,
+    () => getDefaultLane().id,
+  );
+  const lane = getLane(selectedId) ?? getDefaultLane();
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    selectLane(e.target.value);
+    // Wallet connections, clients and loaded data all belong to the old lane
+    window.location.reload();
+  };
+
+  return (
+    <div className="flex gap-2 items-center">
+      <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></div>
+      {laneRegistry.lanes.length > 1 ? (
+        <select
+          value={lane.id}
+          onChange={handleChange}
+          aria-label="Lane"
+          className="bg-neutral-950 border border-neutral-800 rounded-md px-2 py-1 text-gray-300 outline-none"
+        >
+          {laneRegistry.lanes.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <span>{lane.name}:</span>
+      )}
+      <span className="font-mono text-sm">{lane.rpcUrl}</span>
+    </div>
+  );
+}
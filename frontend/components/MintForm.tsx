@@ -2,56 +2,135 @@
 'use client';
 
 import { useState } from 'react';
-import { sendMintTransaction, MintData } from '@/lib/lane-client';
-import { Loader2, CheckCircle, AlertCircle, Terminal } from 'lucide-react';
-import { clsx } from 'clsx';
-import { twMerge } from 'tailwind-merge';
+import Link from 'next/link';
+import {
+  sendMintTransaction,
+  trackLaneTransaction,
+  validateMint,
+  MintData,
+  DEV_MODE,
+} from '@/lib/lane-client';
+import { useLaneSigner } from '@/lib/use-lane-signer';
+import { shortAddress } from '@/lib/nft-display';
+import { LaneTransactionStatus } from '@/lib/nft-types';
+import { NftMetadata, ValidationIssue } from '@/lib/metadata';
+import { Loader2, CheckCircle, AlertCircle, Circle, XCircle, Wallet } from 'lucide-react';
+import { cn } from '@/lib/utils';
 
-function cn(...inputs: (string | undefined | null | false)[]) {
-  return twMerge(clsx(inputs));
+// Lifecycle of a mint as shown to the user, in order
+const MINT_STAGES = [
+  { label: 'Submitted', detail: 'Signed and sent to the RPC bridge' },
+  { label: 'Forwarded', detail: 'Accepted by the Derived Lane node' },
+  { label: 'Sequenced', detail: 'Included in a Core Lane block' },
+  { label: 'Executed', detail: 'Minted in lane state' },
+];
+
+const STAGE_INDEX: Record<LaneTransactionStatus['stage'], number> = {
+  forwarded: 1,
+  sequenced: 2,
+  // A failed receipt means the tx was sequenced but execution was rejected
+  failed: 2,
+  executed: 3,
+};
+
+function FieldIssues({ issues }: { issues: ValidationIssue[] }) {
+  if (!issues.length) return null;
+  return (
+    <ul className="flex flex-col gap-1 text-xs text-red-300">
+      {issues.map((issue) => (
+        <li key={`${issue.field}:${issue.message}`}>
+          <span className="font-mono">{issue.field}</span> {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
 }
 
-// Default dev key for convenience
-const DEFAULT_KEY = '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a';
+interface MintProgress {
+  // Index into MINT_STAGES of the last completed stage (-1: none yet)
+  reached: number;
+  failed: boolean;
+  hash?: string;
+  blockNumber?: string | null;
+  tokenId?: string | null;
+  error?: string;
+}
 
 export default function MintForm() {
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<{ success: boolean; hash?: string; error?: string } | null>(null);
+  const [result, setResult] = useState<MintProgress | null>(null);
   
   // Form State
   const [tokenId, setTokenId] = useState('');
   const [owner, setOwner] = useState('');
   const [metadataJson, setMetadataJson] = useState('{\n  "name": "My NFT",\n  "description": "Minted on Derived Lane"\n}');
-  const [privateKey, setPrivateKey] = useState(DEFAULT_KEY);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+
+  const tokenIdIssues = issues.filter((issue) => issue.field === 'token_id');
+  const ownerIssues = issues.filter((issue) => issue.field === 'owner');
+  const metadataIssues = issues.filter((issue) => issue.field.startsWith('metadata') || issue.field === 'data');
+
+  // Browser wallet, or in dev mode a pasted private key
+  const { signerAddress, connecting, walletError, useDevKey, setUseDevKey, devKey, setDevKey, connect, getSigner } = useLaneSigner();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    let metadata: unknown;
+    try {
+      metadata = JSON.parse(metadataJson);
+    } catch {
+      setIssues([{ field: 'metadata', message: 'is not valid JSON' }]);
+      return;
+    }
+
+    const data: MintData = {
+      metadata: metadata as NftMetadata,
+    };
+
+    if (tokenId.trim()) data.token_id = tokenId.trim();
+    if (owner.trim()) data.owner = owner.trim();
+
+    // Catch schema problems before asking the wallet to sign anything
+    const validationIssues = validateMint(data);
+    setIssues(validationIssues);
+    if (validationIssues.length) {
+      setResult(null);
+      return;
+    }
+
     setLoading(true);
-    setResult(null);
+    setResult({ reached: -1, failed: false });
 
     try {
-      let metadata = {};
-      try {
-        metadata = JSON.parse(metadataJson);
-      } catch (err) {
-        throw new Error('Invalid JSON in metadata field');
+      const res = await sendMintTransaction(data, getSigner());
+      if (res.issues) {
+        setIssues(res.issues);
+        setResult(null);
+        return;
       }
+      if (!res.success || !res.hash) throw new Error(res.error || 'Transaction was not submitted');
 
-      const data: MintData = {
-        metadata,
-      };
-      
-      if (tokenId.trim()) data.token_id = tokenId.trim();
-      if (owner.trim()) data.owner = owner.trim();
+      const hash = res.hash;
+      setResult({ reached: 0, failed: false, hash });
 
-      // Ensure private key starts with 0x if not empty
-      let key = privateKey.trim();
-      if (!key.startsWith('0x')) key = `0x${key}`;
-
-      const res = await sendMintTransaction(data, key as `0x${string}`);
-      setResult(res);
+      await trackLaneTransaction(hash, (status) => {
+        setResult({
+          reached: STAGE_INDEX[status.stage],
+          failed: status.stage === 'failed',
+          hash,
+          blockNumber: status.blockNumber,
+          tokenId: status.tokenId,
+          error: status.error ?? undefined,
+        });
+      });
     } catch (err) {
-      setResult({ success: false, error: err instanceof Error ? err.message : String(err) });
+      // Submission errors, receipt timeouts and RPC failures all end here
+      setResult((prev) => ({
+        ...(prev ?? { reached: -1 }),
+        failed: true,
+        error: err instanceof Error ? err.message : String(err),
+      }));
     } finally {
       setLoading(false);
     }
@@ -71,8 +150,9 @@ export default function MintForm() {
               placeholder="Auto-generated if empty"
               value={tokenId}
               onChange={(e) => setTokenId(e.target.value)}
-              className="bg-neutral-950 border border-neutral-800 rounded-lg p-3 text-neutral-100 placeholder:text-neutral-600 focus:ring-2 focus:ring-blue-600 focus:border-transparent outline-none transition-all"
+              className={cn("bg-neutral-950 border border-neutral-800 rounded-lg p-3 text-neutral-100 placeholder:text-neutral-600 focus:ring-2 focus:ring-blue-600 focus:border-transparent outline-none transition-all", tokenIdIssues.length > 0 && "border-red-500/60")}
             />
+            <FieldIssues issues={tokenIdIssues} />
           </div>
           
           <div className="flex flex-col gap-2">
@@ -85,45 +165,96 @@ export default function MintForm() {
               placeholder="Address or name"
               value={owner}
               onChange={(e) => setOwner(e.target.value)}
-              className="bg-neutral-950 border border-neutral-800 rounded-lg p-3 text-neutral-100 placeholder:text-neutral-600 focus:ring-2 focus:ring-blue-600 focus:border-transparent outline-none transition-all"
+              className={cn("bg-neutral-950 border border-neutral-800 rounded-lg p-3 text-neutral-100 placeholder:text-neutral-600 focus:ring-2 focus:ring-blue-600 focus:border-transparent outline-none transition-all", ownerIssues.length > 0 && "border-red-500/60")}
             />
+            <FieldIssues issues={ownerIssues} />
           </div>
         </div>
 
         <div className="flex flex-col gap-2">
           <label htmlFor="metadata" className="text-sm font-medium text-neutral-300">
-            Metadata JSON
+            Metadata JSON <span className="text-neutral-500">(name required; description, image, attributes optional)</span>
           </label>
           <textarea
             id="metadata"
             rows={5}
             value={metadataJson}
             onChange={(e) => setMetadataJson(e.target.value)}
-            className="bg-neutral-950 border border-neutral-800 rounded-lg p-3 text-neutral-100 font-mono text-sm placeholder:text-neutral-600 focus:ring-2 focus:ring-blue-600 focus:border-transparent outline-none transition-all"
+            className={cn("bg-neutral-950 border border-neutral-800 rounded-lg p-3 text-neutral-100 font-mono text-sm placeholder:text-neutral-600 focus:ring-2 focus:ring-blue-600 focus:border-transparent outline-none transition-all", metadataIssues.length > 0 && "border-red-500/60")}
           />
+          <FieldIssues issues={metadataIssues} />
         </div>
 
-        <div className="border-t border-neutral-800 pt-4 mt-2">
-          <div className="flex flex-col gap-2">
-            <label htmlFor="private_key" className="text-sm font-medium text-neutral-300 flex items-center justify-between">
-              <span>Signer Private Key</span>
-              <span className="text-xs text-neutral-500 font-normal">Default: Anvil Account #2</span>
-            </label>
-            <div className="relative">
-              <input
-                id="private_key"
-                type="password"
-                value={privateKey}
-                onChange={(e) => setPrivateKey(e.target.value)}
-                className="w-full bg-neutral-950 border border-neutral-800 rounded-lg p-3 pr-10 text-neutral-100 font-mono text-xs placeholder:text-neutral-600 focus:ring-2 focus:ring-purple-600 focus:border-transparent outline-none transition-all"
-              />
+        <div className="border-t border-neutral-800 pt-4 mt-2 flex flex-col gap-4">
+          {DEV_MODE && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-neutral-300">Signer</span>
+              <div className="flex gap-1 bg-neutral-950 border border-neutral-800 rounded-lg p-1">
+                <button
+                  type="button"
+                  onClick={() => setUseDevKey(false)}
+                  className={cn('px-3 py-1 rounded-md transition-all', !useDevKey ? 'bg-neutral-800 text-neutral-100' : 'text-neutral-500')}
+                >
+                  Browser Wallet
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setUseDevKey(true)}
+                  className={cn('px-3 py-1 rounded-md transition-all', useDevKey ? 'bg-neutral-800 text-neutral-100' : 'text-neutral-500')}
+                >
+                  Dev Private Key
+                </button>
+              </div>
             </div>
-          </div>
+          )}
+
+          {DEV_MODE && useDevKey ? (
+            <div className="flex flex-col gap-2">
+              <label htmlFor="private_key" className="text-sm font-medium text-neutral-300 flex items-center justify-between">
+                <span>Signer Private Key</span>
+                <span className="text-xs text-neutral-500 font-normal">Dev mode · Default: Anvil Account #2</span>
+              </label>
+              <div className="relative">
+                <input
+                  id="private_key"
+                  type="password"
+                  value={devKey}
+                  onChange={(e) => setDevKey(e.target.value)}
+                  className="w-full bg-neutral-950 border border-neutral-800 rounded-lg p-3 pr-10 text-neutral-100 font-mono text-xs placeholder:text-neutral-600 focus:ring-2 focus:ring-purple-600 focus:border-transparent outline-none transition-all"
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-2">
+              {signerAddress ? (
+                <div className="flex items-center justify-between bg-neutral-950 border border-neutral-800 rounded-lg p-3">
+                  <span className="flex items-center gap-2 text-sm text-neutral-300">
+                    <span className="w-2 h-2 rounded-full bg-green-500"></span>
+                    Connected
+                  </span>
+                  <span className="font-mono text-xs text-neutral-100" title={signerAddress}>
+                    {shortAddress(signerAddress)}
+                  </span>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={connect}
+                  disabled={connecting}
+                  className="w-full border border-neutral-700 hover:border-neutral-500 text-neutral-100 font-medium py-3 px-6 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {connecting ? <Loader2 className="animate-spin w-4 h-4" /> : <Wallet className="w-4 h-4" />}
+                  {connecting ? 'Connecting...' : 'Connect Wallet'}
+                </button>
+              )}
+              {walletError && <div className="text-sm text-red-300">{walletError}</div>}
+            </div>
+          )}
         </div>
 
         <button
           type="submit"
-          disabled={loading}
+          disabled={loading || !signerAddress}
           className="mt-2 w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white font-semibold py-3 px-6 rounded-lg transition-all transform active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
         >
           {loading ? (
@@ -140,30 +271,61 @@ export default function MintForm() {
       {/* Results Display */}
       {result && (
         <div className={cn(
-          "mt-6 p-4 rounded-lg border flex flex-col gap-2 animate-in fade-in slide-in-from-top-2",
-          result.success ? "bg-green-500/10 border-green-500/20 text-green-200" : "bg-red-500/10 border-red-500/20 text-red-200"
+          "mt-6 p-4 rounded-lg border flex flex-col gap-3 animate-in fade-in slide-in-from-top-2",
+          result.failed
+            ? "bg-red-500/10 border-red-500/20 text-red-200"
+            : result.reached === MINT_STAGES.length - 1
+              ? "bg-green-500/10 border-green-500/20 text-green-200"
+              : "bg-neutral-950 border-neutral-800 text-neutral-200"
         )}>
-          <div className="flex items-center gap-2 font-medium">
-            {result.success ? <CheckCircle className="w-5 h-5 text-green-400" /> : <AlertCircle className="w-5 h-5 text-red-400" />}
-            {result.success ? 'Transaction Sent Successfully' : 'Transaction Failed'}
-          </div>
-          
-          {result.success && result.hash && (
-            <div className="text-xs font-mono break-all bg-black/20 p-2 rounded mt-1">
+          <ol className="flex flex-col gap-2">
+            {MINT_STAGES.map((stage, index) => {
+              const done = index <= result.reached;
+              const current = index === result.reached + 1;
+              return (
+                <li key={stage.label} className={cn("flex items-start gap-2", !done && !current && "opacity-40")}>
+                  {done ? (
+                    <CheckCircle className="w-5 h-5 text-green-400 shrink-0" />
+                  ) : current && result.failed ? (
+                    <XCircle className="w-5 h-5 text-red-400 shrink-0" />
+                  ) : current && loading ? (
+                    <Loader2 className="w-5 h-5 animate-spin text-blue-400 shrink-0" />
+                  ) : (
+                    <Circle className="w-5 h-5 text-neutral-600 shrink-0" />
+                  )}
+                  <div className="flex flex-col">
+                    <span className="font-medium">{stage.label}</span>
+                    <span className="text-xs text-neutral-400">
+                      {index === 2 && done && result.blockNumber
+                        ? `Block ${BigInt(result.blockNumber).toString()}`
+                        : stage.detail}
+                    </span>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+
+          {result.hash && (
+            <div className="text-xs font-mono break-all bg-black/20 p-2 rounded">
               Hash: {result.hash}
             </div>
           )}
-          
-          {!result.success && result.error && (
-            <div className="text-sm mt-1 opacity-90">
-              {result.error}
+
+          {result.tokenId && (
+            <div className="flex items-center gap-2 font-medium">
+              <CheckCircle className="w-5 h-5 text-green-400" />
+              Minted token
+              <Link href={`/token/${encodeURIComponent(result.tokenId)}`} className="font-mono underline underline-offset-2">
+                #{result.tokenId}
+              </Link>
             </div>
           )}
 
-          {result.success && (
-            <div className="mt-2 text-xs text-neutral-400 flex items-center gap-1">
-              <Terminal className="w-3 h-3" />
-              Check your terminal logs for execution confirmation.
+          {result.failed && result.error && (
+            <div className="flex items-start gap-2 text-sm opacity-90">
+              <AlertCircle className="w-5 h-5 text-red-400 shrink-0" />
+              <span className="break-all">{result.error}</span>
             </div>
           )}
         </div>
@@ -0,0 +1,198 @@
+'use client';
+
+import { useState } from 'react';
+import { isAddress } from 'viem';
+import {
+  sendBurnTransaction,
+  sendTransferTransaction,
+  trackLaneTransaction,
+  LaneSendResult,
+  DEV_MODE,
+} from '@/lib/lane-client';
+import { useLaneSigner } from '@/lib/use-lane-signer';
+import { shortAddress } from '@/lib/nft-display';
+import { NftToken, TransactionStage } from '@/lib/nft-types';
+import { Loader2, AlertCircle, CheckCircle, Send, Flame, Wallet } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type Action = 'transfer' | 'burn';
+
+interface ActionProgress {
+  action: Action;
+  stage: 'submitted' | TransactionStage;
+  hash?: string;
+  error?: string;
+}
+
+const STAGE_LABELS: Record<ActionProgress['stage'], string> = {
+  submitted: 'Submitted to the RPC bridge',
+  forwarded: 'Accepted by the Derived Lane node',
+  sequenced: 'Included in a Core Lane block',
+  executed: 'Executed in lane state',
+  failed: 'Failed',
+};
+
+// Transfer and burn controls for a token, only enabled for its current owner
+export default function TokenActions({ token, onChanged }: { token: NftToken; onChanged: () => void }) {
+  const { signerAddress, connecting, walletError, useDevKey, setUseDevKey, connect, getSigner } = useLaneSigner();
+
+  const [action, setAction] = useState<Action | null>(null);
+  const [recipient, setRecipient] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<ActionProgress | null>(null);
+
+  const isOwner = !!signerAddress && signerAddress.toLowerCase() === token.owner.toLowerCase();
+  const recipientValid = isAddress(recipient.trim(), { strict: false });
+
+  const run = async (current: Action) => {
+    setLoading(true);
+    setProgress({ action: current, stage: 'submitted' });
+
+    try {
+      let res: LaneSendResult;
+      if (current === 'transfer') {
+        res = await sendTransferTransaction(token.token_id, recipient.trim(), getSigner());
+      } else {
+        res = await sendBurnTransaction(token.token_id, getSigner());
+      }
+      if (!res.success || !res.hash) {
+        throw new Error(res.issues?.map((issue) => `${issue.field} ${issue.message}`).join('; ') || res.error || 'Transaction was not submitted');
+      }
+
+      const hash = res.hash;
+      const final = await trackLaneTransaction(hash, (status) => {
+        setProgress({ action: current, stage: status.stage, hash, error: status.error ?? undefined });
+      });
+      if (final.stage === 'executed') {
+        setAction(null);
+        setRecipient('');
+        onChanged();
+      }
+    } catch (err) {
+      setProgress((prev) => ({
+        ...(prev ?? { action: current }),
+        stage: 'failed',
+        error: err instanceof Error ? err.message : String(err),
+      }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTransfer = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('transfer');
+  };
+
+  return (
+    <div className="flex flex-col gap-3 border-t border-neutral-800 pt-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-neutral-500">Owner Actions</span>
+        {DEV_MODE && (
+          <button
+            type="button"
+            onClick={() => setUseDevKey(!useDevKey)}
+            className="text-xs text-neutral-500 hover:text-neutral-300 underline underline-offset-2"
+          >
+            {useDevKey ? 'Use browser wallet' : 'Use dev private key'}
+          </button>
+        )}
+      </div>
+
+      {!signerAddress ? (
+        <button
+          type="button"
+          onClick={connect}
+          disabled={connecting}
+          className="w-full border border-neutral-700 hover:border-neutral-500 text-neutral-100 font-medium py-2 px-4 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-sm"
+        >
+          {connecting ? <Loader2 className="animate-spin w-4 h-4" /> : <Wallet className="w-4 h-4" />}
+          {connecting ? 'Connecting...' : 'Connect Wallet'}
+        </button>
+      ) : !isOwner ? (
+        <p className="text-sm text-neutral-500">
+          Connected as <span className="font-mono" title={signerAddress}>{shortAddress(signerAddress)}</span>. Only the
+          owner can transfer or burn this token.
+        </p>
+      ) : (
+        <div className="flex flex-col gap-3">
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setAction(action === 'transfer' ? null : 'transfer')}
+              disabled={loading}
+              className={cn('flex-1 border rounded-lg py-2 px-4 text-sm font-medium flex items-center justify-center gap-2 transition-all disabled:opacity-50', action === 'transfer' ? 'border-blue-600 text-blue-300' : 'border-neutral-700 hover:border-neutral-500 text-neutral-100')}
+            >
+              <Send className="w-4 h-4" />
+              Transfer
+            </button>
+            <button
+              type="button"
+              onClick={() => setAction(action === 'burn' ? null : 'burn')}
+              disabled={loading}
+              className={cn('flex-1 border rounded-lg py-2 px-4 text-sm font-medium flex items-center justify-center gap-2 transition-all disabled:opacity-50', action === 'burn' ? 'border-red-600 text-red-300' : 'border-neutral-700 hover:border-neutral-500 text-neutral-100')}
+            >
+              <Flame className="w-4 h-4" />
+              Burn
+            </button>
+          </div>
+
+          {action === 'transfer' && (
+            <form onSubmit={handleTransfer} className="flex flex-col gap-1">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  placeholder="Recipient address"
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value)}
+                  className="flex-1 bg-neutral-950 border border-neutral-800 rounded-lg p-2 text-sm font-mono text-neutral-100 placeholder:text-neutral-600 focus:ring-2 focus:ring-blue-600 focus:border-transparent outline-none transition-all"
+                />
+                <button
+                  type="submit"
+                  disabled={loading || !recipientValid}
+                  className="bg-blue-600 hover:bg-blue-500 text-white text-sm font-semibold px-4 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Send
+                </button>
+              </div>
+              {recipient.trim() && !recipientValid && <p className="text-xs text-red-300">Recipient must be a 0x-prefixed 20-byte address</p>}
+            </form>
+          )}
+
+          {action === 'burn' && (
+            <div className="flex items-center justify-between gap-2 bg-red-500/10 border border-red-500/20 rounded-lg p-3 text-sm text-red-200">
+              <span>Burning destroys token #{token.token_id} permanently.</span>
+              <button
+                type="button"
+                onClick={() => run('burn')}
+                disabled={loading}
+                className="bg-red-600 hover:bg-red-500 text-white font-semibold px-4 py-1 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Burn
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {walletError && <div className="text-sm text-red-300">{walletError}</div>}
+
+      {progress && (
+        <div className={cn('p-3 rounded-lg border flex flex-col gap-2 text-sm', progress.stage === 'failed' ? 'bg-red-500/10 border-red-500/20 text-red-200' : progress.stage === 'executed' ? 'bg-green-500/10 border-green-500/20 text-green-200' : 'bg-neutral-950 border-neutral-800 text-neutral-200')}>
+          <div className="flex items-center gap-2 font-medium">
+            {progress.stage === 'failed' ? (
+              <AlertCircle className="w-4 h-4 text-red-400" />
+            ) : progress.stage === 'executed' ? (
+              <CheckCircle className="w-4 h-4 text-green-400" />
+            ) : (
+              <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
+            )}
+            <span className="capitalize">{progress.action}</span>: {STAGE_LABELS[progress.stage]}
+          </div>
+          {progress.hash && <div className="text-xs font-mono break-all opacity-80">Hash: {progress.hash}</div>}
+          {progress.error && <div className="text-xs break-all">{progress.error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getMintTransaction, getToken } from '@/lib/lane-client';
+import { MintTransaction, NftToken } from '@/lib/nft-types';
+import { tokenDescription, tokenImage, tokenName } from '@/lib/nft-display';
+import { cn } from '@/lib/utils';
+import TokenActions from './TokenActions';
+import { Loader2, AlertCircle, ImageOff } from 'lucide-react';
+
+type DetailState =
+  | { status: 'loading' }
+  | { status: 'error'; error: string }
+  | { status: 'loaded'; token: NftToken | null; mintTx: MintTransaction | null };
+
+export default function TokenDetail({ tokenId }: { tokenId: string }) {
+  const [state, setState] = useState<DetailState>({ status: 'loading' });
+  // Bumped after a transfer or burn executes to reload the token
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getToken(tokenId), getMintTransaction(tokenId)])
+      .then(([token, mintTx]) => {
+        if (!cancelled) setState({ status: 'loaded', token, mintTx });
+      })
+      .catch((err) => {
+        if (!cancelled) setState({ status: 'error', error: err instanceof Error ? err.message : String(err) });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenId, version]);
+
+  if (state.status === 'loading') {
+    return (
+      <div className="flex items-center justify-center gap-2 text-neutral-400 py-16">
+        <Loader2 className="animate-spin w-5 h-5" />
+        Loading token...
+      </div>
+    );
+  }
+
+  if (state.status === 'error') {
+    return (
+      <div className="w-full p-4 rounded-lg border bg-red-500/10 border-red-500/20 text-red-200 flex items-center gap-2">
+        <AlertCircle className="w-5 h-5 text-red-400" />
+        {state.error}
+      </div>
+    );
+  }
+
+  const { token, mintTx } = state;
+  if (!token) {
+    return <div className="text-center text-neutral-500 py-16">Token {tokenId} does not exist. It was never minted or has been burned.</div>;
+  }
+
+  const image = tokenImage(token);
+  const description = tokenDescription(token);
+
+  return (
+    <section className="w-full bg-neutral-900 border border-neutral-800 rounded-xl overflow-hidden shadow-2xl grid grid-cols-1 md:grid-cols-2">
+      <div className="aspect-square bg-neutral-950 flex items-center justify-center">
+        {image ? (
+          // Metadata images can live on any host, so next/image's allowlist doesn't fit
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={image} alt={tokenName(token)} className="w-full h-full object-cover" />
+        ) : (
+          <ImageOff className="w-10 h-10 text-neutral-700" />
+        )}
+      </div>
+
+      <div className="p-6 flex flex-col gap-5">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-2xl font-bold text-neutral-100">{tokenName(token)}</h2>
+          <span className="text-sm font-mono text-neutral-500">#{token.token_id}</span>
+          {description && <p className="text-neutral-400 mt-2">{description}</p>}
+        </div>
+
+        <dl className="flex flex-col gap-3 text-sm">
+          <div className="flex flex-col gap-1">
+            <dt className="text-neutral-500">Owner</dt>
+            <dd className="font-mono text-xs text-neutral-100 break-all">{token.owner}</dd>
+          </div>
+          <div className="flex flex-col gap-1">
+            <dt className="text-neutral-500">Minted</dt>
+            <dd className="text-neutral-100">{new Date(token.minted_at).toLocaleString()}</dd>
+          </div>
+          <div className="flex flex-col gap-1">
+            <dt className="text-neutral-500">Mint Transaction</dt>
+            {mintTx ? (
+              <dd className="flex flex-col gap-1">
+                <span className="font-mono text-xs text-neutral-100 break-all">{mintTx.hash}</span>
+                <span className="text-xs text-neutral-500">
+                  <span className={cn(mintTx.status === 'success' ? 'text-green-400' : mintTx.status === 'failed' ? 'text-red-400' : 'text-yellow-400')}>
+                    {mintTx.status}
+                  </span>
+                  {mintTx.blockNumber && ` · block ${BigInt(mintTx.blockNumber).toString()}`}
+                  {` · from ${mintTx.from}`}
+                </span>
+              </dd>
+            ) : (
+              <dd className="text-neutral-500">Not submitted through this bridge</dd>
+            )}
+          </div>
+        </dl>
+
+        <TokenActions token={token} onChanged={() => setVersion((v) => v + 1)} />
+
+        <div className="flex flex-col gap-2">
+          <span className="text-sm text-neutral-500">Raw Metadata</span>
+          <pre className="bg-neutral-950 border border-neutral-800 rounded-lg p-3 text-xs text-neutral-300 font-mono overflow-x-auto">
+            {JSON.stringify(token.metadata, null, 2)}
+          </pre>
+        </div>
+      </div>
+    </section>
+  );
+}
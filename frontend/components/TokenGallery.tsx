@@ -0,0 +1,154 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { listTokens } from '@/lib/lane-client';
+import { NftTokenPage } from '@/lib/nft-types';
+import { shortAddress, tokenImage, tokenName } from '@/lib/nft-display';
+import { Loader2, AlertCircle, ImageOff, ChevronLeft, ChevronRight, Search } from 'lucide-react';
+
+const PAGE_SIZE = 12;
+
+export default function TokenGallery() {
+  const [ownerInput, setOwnerInput] = useState('');
+  const [owner, setOwner] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [page, setPage] = useState<NftTokenPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listTokens({ owner: owner || undefined, offset, limit: PAGE_SIZE })
+      .then((result) => {
+        if (cancelled) return;
+        setPage(result);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [owner, offset]);
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(null);
+    setOffset(0);
+    setOwner(ownerInput.trim());
+  };
+
+  const goTo = (nextOffset: number) => {
+    setPage(null);
+    setOffset(nextOffset);
+  };
+
+  const loading = !page && !error;
+  const lastShown = page ? Math.min(page.offset + page.tokens.length, page.total) : 0;
+
+  return (
+    <section className="w-full flex flex-col gap-6">
+      <form onSubmit={handleFilter} className="flex gap-2">
+        <input
+          type="text"
+          placeholder="Filter by owner address"
+          value={ownerInput}
+          onChange={(e) => setOwnerInput(e.target.value)}
+          className="flex-1 bg-neutral-950 border border-neutral-800 rounded-lg p-3 text-neutral-100 placeholder:text-neutral-600 focus:ring-2 focus:ring-blue-600 focus:border-transparent outline-none transition-all"
+        />
+        <button
+          type="submit"
+          className="bg-neutral-800 hover:bg-neutral-700 text-neutral-100 font-medium px-4 rounded-lg transition-all flex items-center gap-2"
+        >
+          <Search className="w-4 h-4" />
+          Filter
+        </button>
+      </form>
+
+      {loading && (
+        <div className="flex items-center justify-center gap-2 text-neutral-400 py-16">
+          <Loader2 className="animate-spin w-5 h-5" />
+          Loading tokens...
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 rounded-lg border bg-red-500/10 border-red-500/20 text-red-200 flex items-center gap-2">
+          <AlertCircle className="w-5 h-5 text-red-400" />
+          {error}
+        </div>
+      )}
+
+      {page && page.tokens.length === 0 && (
+        <div className="text-center text-neutral-500 py-16">
+          {owner ? `No tokens owned by ${owner}.` : 'No tokens minted yet.'}
+        </div>
+      )}
+
+      {page && page.tokens.length > 0 && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+            {page.tokens.map((token) => {
+              const image = tokenImage(token);
+              return (
+                <Link
+                  key={token.token_id}
+                  href={`/token/${encodeURIComponent(token.token_id)}`}
+                  className="bg-neutral-900 border border-neutral-800 hover:border-neutral-600 rounded-xl overflow-hidden transition-all"
+                >
+                  <div className="aspect-square bg-neutral-950 flex items-center justify-center">
+                    {image ? (
+                      // Metadata images can live on any host, so next/image's allowlist doesn't fit
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img src={image} alt={tokenName(token)} className="w-full h-full object-cover" />
+                    ) : (
+                      <ImageOff className="w-8 h-8 text-neutral-700" />
+                    )}
+                  </div>
+                  <div className="p-4 flex flex-col gap-1">
+                    <div className="font-medium text-neutral-100 truncate">{tokenName(token)}</div>
+                    <div className="text-xs text-neutral-500 flex justify-between gap-2">
+                      <span className="font-mono truncate">#{token.token_id}</span>
+                      <span className="font-mono" title={token.owner}>
+                        {shortAddress(token.owner)}
+                      </span>
+                    </div>
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-neutral-400">
+            <span>
+              Showing {page.offset + 1}–{lastShown} of {page.total}
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => goTo(Math.max(offset - PAGE_SIZE, 0))}
+                disabled={offset === 0}
+                className="p-2 rounded-lg border border-neutral-800 hover:border-neutral-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => goTo(offset + PAGE_SIZE)}
+                disabled={lastShown >= page.total}
+                className="p-2 rounded-lg border border-neutral-800 hover:border-neutral-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Next page"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
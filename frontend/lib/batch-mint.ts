@@ -0,0 +1,188 @@
+import { Hex } from 'viem';
+import { NftMetadata, ValidationIssue } from './metadata';
+import type { MintData } from './lane-client';
+
+/**
+ * Batch mint files: a JSON array of mint requests ({ token_id?, owner?, metadata })
+ * or a CSV with a header row. CSV columns are token_id, owner and either a
+ * `metadata` column holding the whole metadata JSON, or flat name, description,
+ * image, external_url and attributes (a JSON array) columns.
+ */
+
+export const MAX_BATCH_ROWS = 500;
+
+const METADATA_COLUMNS = ['name', 'description', 'image', 'external_url'];
+
+export interface BatchRow {
+  // 1-based position in the file (data rows only), used in reports
+  row: number;
+  data: MintData;
+  issues: ValidationIssue[];
+}
+
+export type BatchRowStatus = 'queued' | 'sending' | 'retrying' | 'submitted' | 'executed' | 'failed';
+
+export interface BatchRowResult {
+  row: number;
+  data: MintData;
+  status: BatchRowStatus;
+  nonce?: number;
+  hash?: Hex;
+  // Token the lane assigned once the mint executed
+  tokenId?: string | null;
+  attempts: number;
+  error?: string;
+}
+
+// Split CSV text into records, honouring quoted fields with commas, quotes and newlines
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Skip blank lines
+  return records.filter((r) => r.some((value) => value.trim()));
+}
+
+function csvRowToMint(header: string[], values: string[]): { data: MintData; issues: ValidationIssue[] } {
+  const cells: Record<string, string> = {};
+  header.forEach((column, index) => {
+    const value = values[index]?.trim();
+    if (value) cells[column] = value;
+  });
+
+  const issues: ValidationIssue[] = [];
+  let metadata: Record<string, unknown> = {};
+
+  if (cells.metadata) {
+    try {
+      metadata = JSON.parse(cells.metadata);
+    } catch {
+      issues.push({ field: 'metadata', message: 'is not valid JSON' });
+    }
+  } else {
+    for (const column of METADATA_COLUMNS) {
+      if (cells[column]) metadata[column] = cells[column];
+    }
+    if (cells.attributes) {
+      try {
+        metadata.attributes = JSON.parse(cells.attributes);
+      } catch {
+        issues.push({ field: 'metadata.attributes', message: 'is not valid JSON' });
+      }
+    }
+  }
+
+  const data: MintData = { metadata: metadata as NftMetadata };
+  if (cells.token_id) data.token_id = cells.token_id;
+  if (cells.owner) data.owner = cells.owner;
+  return { data, issues };
+}
+
+/**
+ * Parse an uploaded batch file into rows. Only the file's structure is checked
+ * here; the caller runs the mint schema checks on each row.
+ */
+export function parseBatchFile(text: string, fileName: string): { data: MintData; issues: ValidationIssue[] }[] {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('The file is empty');
+
+  let rows: { data: MintData; issues: ValidationIssue[] }[];
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    if (!Array.isArray(parsed)) throw new Error('A JSON batch must be an array of mint requests');
+    rows = parsed.map((entry) => ({ data: entry as MintData, issues: [] }));
+  } else {
+    const [header, ...records] = parseCsv(trimmed);
+    const columns = header.map((column) => column.trim().toLowerCase());
+    if (!columns.includes('metadata') && !columns.includes('name')) {
+      throw new Error('The CSV header needs a metadata or a name column');
+    }
+    rows = records.map((values) => csvRowToMint(columns, values));
+  }
+
+  if (rows.length === 0) throw new Error('The file has no rows');
+  if (rows.length > MAX_BATCH_ROWS) throw new Error(`A batch may have at most ${MAX_BATCH_ROWS} rows`);
+  return rows;
+}
+
+// Explicit token IDs must be unique within a batch
+export function findDuplicateTokenIds(rows: { data: MintData }[]): Map<number, ValidationIssue> {
+  const seen = new Map<string, number>();
+  const duplicates = new Map<number, ValidationIssue>();
+
+  rows.forEach(({ data }, index) => {
+    if (!data.token_id) return;
+    const first = seen.get(data.token_id);
+    if (first === undefined) {
+      seen.set(data.token_id, index);
+    } else {
+      duplicates.set(index, { field: 'token_id', message: `duplicates row ${first + 1}` });
+    }
+  });
+  return duplicates;
+}
+
+function csvField(value: string | number | null | undefined) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV report of a batch run, one line per row
+export function batchReportCsv(results: BatchRowResult[]): string {
+  const header = ['row', 'token_id', 'name', 'owner', 'status', 'nonce', 'hash', 'minted_token_id', 'attempts', 'error'];
+  const lines = results.map((result) =>
+    [
+      result.row,
+      result.data.token_id,
+      result.data.metadata?.name,
+      result.data.owner,
+      result.status,
+      result.nonce,
+      result.hash,
+      result.tokenId,
+      result.attempts,
+      result.error,
+    ]
+      .map(csvField)
+      .join(','),
+  );
+  return [header.join(','), ...lines].join('\n');
+}
@@ -0,0 +1,319 @@
+import { getBridgeLane } from "@/lib/lanes";
+import { RpcError, JSON_RPC_ERRORS } from "./errors";
+import { getRequestContext, logger, REQUEST_ID_HEADER } from "./logger";
+import { recordBackendCall } from "./metrics";
+
+/**
+ * Client for the derived lane node(s) the bridge forwards to
+ *
+ * The lane's backendUrl is the primary node; fallbackBackendUrls (or further
+ * comma-separated entries in BACKEND_URL) are tried in order when it fails.
+ * Every call has a timeout (BACKEND_TIMEOUT ms, default 10000).
+ *
+ * Calls that are safe to repeat are retried up to BACKEND_RETRIES times
+ * (default 2), moving to the next node each time and backing off once all
+ * have been tried. Reads are safe, and so are raw transactions, which the
+ * node recognizes by hash ("already known"). eth_sendTransaction is sent
+ * once, since the node would sign it again with a new nonce.
+ *
+ * Each node has a circuit breaker. After BACKEND_FAILURE_THRESHOLD (5)
+ * consecutive failures it is skipped for BACKEND_COOLDOWN ms (30000); after
+ * that, a health check (eth_chainId) has to pass before it gets traffic again.
+ * A JSON-RPC error is an answer, not a failure: it is thrown as RpcError
+ * without retrying.
+ *
+ * Calls carry the current request's X-Request-Id (see lib/bridge/logger), and
+ * their latency is added to the request's backendMs and to the backend
+ * metrics (lib/bridge/metrics).
+ */
+
+const lane = getBridgeLane();
+
+export const BACKEND_URLS = [lane.backendUrl, ...lane.fallbackBackendUrls];
+
+function numberFromEnv(name: string, fallback: number) {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const TIMEOUT = numberFromEnv("BACKEND_TIMEOUT", 10_000);
+const MAX_RETRIES = numberFromEnv("BACKEND_RETRIES", 2);
+const FAILURE_THRESHOLD = numberFromEnv("BACKEND_FAILURE_THRESHOLD", 5);
+const COOLDOWN = numberFromEnv("BACKEND_COOLDOWN", 30_000);
+const HEALTH_CACHE = numberFromEnv("BACKEND_HEALTH_CACHE", 5_000);
+const RETRY_DELAY = 200;
+
+// Repeating these could submit a transaction twice
+const UNSAFE_TO_RETRY = new Set(["eth_sendTransaction"]);
+
+interface BackendNode {
+  url: string;
+  // Consecutive failures; reset by any success
+  failures: number;
+  // While set and in the future the circuit is open and the node is skipped
+  openUntil: number | null;
+  latencyMs: number | null;
+  lastError: string | null;
+}
+
+export interface BackendStatus {
+  url: string;
+  reachable: boolean;
+  latencyMs: number | null;
+  circuit: "closed" | "open" | "half-open";
+  failures: number;
+  error: string | null;
+}
+
+// The latest health check of every node, shared by concurrent callers
+interface BackendProbe {
+  startedAt: number;
+  statuses: Promise<BackendStatus[]>;
+}
+
+// Kept on globalThis so every route bundle shares the same circuit state
+const globalBackends = globalThis as typeof globalThis & {
+  __bridgeBackends?: BackendNode[];
+  __bridgeBackendProbe?: BackendProbe;
+};
+
+function getNodes(): BackendNode[] {
+  if (!globalBackends.__bridgeBackends) {
+    globalBackends.__bridgeBackends = BACKEND_URLS.map((url) => ({
+      url,
+      failures: 0,
+      openUntil: null,
+      latencyMs: null,
+      lastError: null,
+    }));
+  }
+  return globalBackends.__bridgeBackends;
+}
+
+function circuitOf(node: BackendNode): BackendStatus["circuit"] {
+  if (node.openUntil === null) return "closed";
+  return Date.now() < node.openUntil ? "open" : "half-open";
+}
+
+// A node failing to answer at all, as opposed to answering with an error
+class NodeUnavailableError extends Error {}
+
+function recordSuccess(node: BackendNode, latencyMs: number) {
+  node.failures = 0;
+  node.openUntil = null;
+  node.latencyMs = latencyMs;
+  node.lastError = null;
+}
+
+function recordFailure(node: BackendNode, error: NodeUnavailableError) {
+  const wasOpen = circuitOf(node) === "open";
+  node.failures += 1;
+  node.lastError = error.message;
+  if (node.failures >= FAILURE_THRESHOLD || node.openUntil !== null) {
+    node.openUntil = Date.now() + COOLDOWN;
+    if (!wasOpen) {
+      logger.warn("backend circuit opened", {
+        backend: node.url,
+        failures: node.failures,
+        error: error.message,
+      });
+    }
+  }
+}
+
+async function post(node: BackendNode, method: string, params: unknown[]) {
+  const context = getRequestContext();
+  const started = Date.now();
+  const elapsed = (failed: boolean) => {
+    const latencyMs = Date.now() - started;
+    if (context) context.backendMs += latencyMs;
+    recordBackendCall(node.url, method, latencyMs, failed);
+    return latencyMs;
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(node.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(context ? { [REQUEST_ID_HEADER]: context.requestId } : {}),
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method,
+        params,
+      }),
+      signal: AbortSignal.timeout(TIMEOUT),
+    });
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    const failure = new NodeUnavailableError(
+      timedOut
+        ? `timed out after ${TIMEOUT}ms`
+        : error instanceof Error
+        ? error.message
+        : String(error)
+    );
+    logger.warn("backend call failed", {
+      backend: node.url,
+      backendMethod: method,
+      latencyMs: elapsed(true),
+      error: failure.message,
+    });
+    recordFailure(node, failure);
+    throw failure;
+  }
+
+  // Overloaded or restarting; a 4xx means the request itself is wrong
+  if (response.status >= 500 || response.status === 429) {
+    const failure = new NodeUnavailableError(
+      `HTTP ${response.status}: ${await response.text()}`
+    );
+    logger.warn("backend call failed", {
+      backend: node.url,
+      backendMethod: method,
+      latencyMs: elapsed(true),
+      error: failure.message,
+    });
+    recordFailure(node, failure);
+    throw failure;
+  }
+  const latencyMs = elapsed(false);
+  recordSuccess(node, latencyMs);
+  logger.debug("backend call", {
+    backend: node.url,
+    backendMethod: method,
+    latencyMs,
+    status: response.status,
+  });
+
+  if (!response.ok) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.INTERNAL_ERROR,
+      "Derived Lane RPC error",
+      await response.text()
+    );
+  }
+
+  const result = await response.json();
+  if (result.error) {
+    throw new RpcError(
+      result.error.code || JSON_RPC_ERRORS.INTERNAL_ERROR,
+      result.error.message || "Derived Lane RPC error",
+      result.error.data
+    );
+  }
+  return result.result;
+}
+
+/**
+ * Nodes to try, best first: closed circuits in configured order, then nodes
+ * whose cooldown has passed and that answer a health check again.
+ */
+async function availableNodes(): Promise<BackendNode[]> {
+  const nodes = getNodes();
+  const recovered: BackendNode[] = [];
+  for (const node of nodes.filter((n) => circuitOf(n) === "half-open")) {
+    try {
+      await post(node, "eth_chainId", []);
+      logger.info("backend circuit closed", { backend: node.url });
+      recovered.push(node);
+    } catch {
+      // Still down: the failure reopened its circuit
+    }
+  }
+  return nodes.filter(
+    (n) => circuitOf(n) === "closed" || recovered.includes(n)
+  );
+}
+
+/**
+ * Call a JSON-RPC method on the derived lane node and return its result.
+ * Unreachable nodes are failed over (see above); HTTP failures and JSON-RPC
+ * errors from the node are thrown as RpcError.
+ */
+export async function callBackend<T>(
+  method: string,
+  params: unknown[] = []
+): Promise<T> {
+  const nodes = await availableNodes();
+  if (nodes.length === 0) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.INTERNAL_ERROR,
+      "No derived lane node available",
+      getNodes().map((node) => ({ url: node.url, error: node.lastError }))
+    );
+  }
+
+  const attempts = UNSAFE_TO_RETRY.has(method) ? 1 : MAX_RETRIES + 1;
+  let lastError: NodeUnavailableError | null = null;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const node = nodes[attempt % nodes.length];
+    if (attempt > 0) {
+      // Failing over is immediate; back off once every node has been tried
+      if (attempt >= nodes.length) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, RETRY_DELAY * 2 ** (attempt - nodes.length))
+        );
+      }
+      logger.info("backend retry", {
+        backend: node.url,
+        backendMethod: method,
+        attempt,
+      });
+    }
+    try {
+      return (await post(node, method, params)) as T;
+    } catch (error) {
+      if (!(error instanceof NodeUnavailableError)) throw error;
+      lastError = error;
+    }
+  }
+
+  throw new RpcError(
+    JSON_RPC_ERRORS.INTERNAL_ERROR,
+    "Derived Lane RPC unavailable",
+    lastError?.message
+  );
+}
+
+/**
+ * Health check every node (eth_chainId) for the GET health endpoint. A
+ * passing check also closes a node's circuit. The endpoint is public, so a
+ * check is reused for BACKEND_HEALTH_CACHE ms (including while it runs):
+ * however often it is called, each node gets at most one probe per period.
+ */
+export async function checkBackends(): Promise<BackendStatus[]> {
+  const cached = globalBackends.__bridgeBackendProbe;
+  if (cached && Date.now() - cached.startedAt < HEALTH_CACHE) {
+    return cached.statuses;
+  }
+
+  const statuses = probeBackends();
+  globalBackends.__bridgeBackendProbe = { startedAt: Date.now(), statuses };
+  return statuses;
+}
+
+function probeBackends(): Promise<BackendStatus[]> {
+  return Promise.all(
+    getNodes().map(async (node) => {
+      let reachable = true;
+      try {
+        await post(node, "eth_chainId", []);
+      } catch (error) {
+        // A JSON-RPC error still means the node answered
+        reachable = !(error instanceof NodeUnavailableError);
+      }
+      return {
+        url: node.url,
+        reachable,
+        latencyMs: reachable ? node.latencyMs : null,
+        circuit: circuitOf(node),
+        failures: node.failures,
+        error: node.lastError,
+      };
+    })
+  );
+}
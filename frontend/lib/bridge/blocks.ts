@@ -0,0 +1,302 @@
+import {
+  concat,
+  encodeAbiParameters,
+  Hex,
+  keccak256,
+  parseTransaction,
+  rpcTransactionType,
+  toHex,
+  TransactionSerialized,
+  zeroAddress,
+} from "viem";
+import { getBridgeLane } from "@/lib/lanes";
+import { JSON_RPC_ERRORS, RpcError } from "./errors";
+import {
+  BASE_FEE_PER_GAS,
+  BLOCK_GAS_LIMIT,
+  DEFAULT_GAS,
+  effectiveGasPrice,
+  gasPrice,
+  gasUsedOf,
+} from "./fees";
+import { logsBloom } from "./logs";
+import { getBridgeStore, StoredBlock, StoredTransaction } from "./store";
+
+/**
+ * The bridge's block chain
+ *
+ * Lane transactions are sequenced by Core Lane and executed by the derived
+ * lane node, neither of which gives wallets a chain they can follow. The
+ * bridge keeps its own: a genesis block created on first use, then one block
+ * per transaction outcome the derived lane node reports, numbered
+ * consecutively and linked by parent hash. The node's block number is kept on
+ * each block as `derivedBlockNumber`.
+ *
+ * Block hashes commit to the parent hash, number, timestamp, transaction
+ * hashes and chain ID, so they are stable once sealed.
+ */
+
+export const ZERO_HASH: Hex = `0x${"0".repeat(64)}`;
+// keccak256(rlp([])), the uncles hash of a block without uncles
+const EMPTY_UNCLES_HASH: Hex =
+  "0x1dcc4de8dec75d7aab85b567b6ccd41ad312451b948a7413f0a142fd40d49347";
+
+// Kept on globalThis so every route bundle serializes through the same lock
+const globalChain = globalThis as typeof globalThis & {
+  __bridgeChainLock?: Promise<unknown>;
+};
+
+/**
+ * Run `fn` with exclusive access to the chain head. Everything that reads
+ * the head and seals a block on top of it must go through here.
+ */
+export function withChainLock<T>(fn: () => Promise<T>): Promise<T> {
+  const previous = globalChain.__bridgeChainLock ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(fn);
+  globalChain.__bridgeChainLock = next;
+  return next;
+}
+
+function transactionsRoot(transactions: string[]): Hex {
+  return transactions.length === 0
+    ? ZERO_HASH
+    : keccak256(concat(transactions as Hex[]));
+}
+
+function blockHash(block: Omit<StoredBlock, "hash">): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { type: "bytes32" },
+        { type: "uint256" },
+        { type: "uint256" },
+        { type: "bytes32" },
+        { type: "uint256" },
+      ],
+      [
+        block.parentHash as Hex,
+        BigInt(block.number),
+        BigInt(block.timestamp),
+        transactionsRoot(block.transactions),
+        BigInt(getBridgeLane().chainId),
+      ]
+    )
+  );
+}
+
+async function ensureGenesis(): Promise<StoredBlock> {
+  const store = getBridgeStore();
+  const latest = await store.getLatestBlock();
+  if (latest) return latest;
+
+  const genesis = {
+    number: "0x0",
+    parentHash: ZERO_HASH,
+    timestamp: Date.now(),
+    transactions: [],
+    derivedBlockNumber: null,
+  };
+  const block = { ...genesis, hash: blockHash(genesis) };
+  await store.saveBlock(block);
+  return block;
+}
+
+/** Current chain head, creating the genesis block on first use */
+export function getLatestBlock(): Promise<StoredBlock> {
+  return withChainLock(ensureGenesis);
+}
+
+/**
+ * Seal a block with `transactions` on top of the current head. Call inside
+ * withChainLock.
+ */
+export async function appendBlock(
+  transactions: string[],
+  derivedBlockNumber: string | null
+): Promise<StoredBlock> {
+  const parent = await ensureGenesis();
+  const header = {
+    number: toHex(BigInt(parent.number) + 1n),
+    parentHash: parent.hash,
+    // Never earlier than the parent, even if the clock steps back
+    timestamp: Math.max(Date.now(), parent.timestamp),
+    transactions,
+    derivedBlockNumber,
+  };
+  const block = { ...header, hash: blockHash(header) };
+  await getBridgeStore().saveBlock(block);
+  return block;
+}
+
+/**
+ * Block for a block parameter: a tag or a hex number. "pending" is not a
+ * stored block, see getPendingBlock.
+ */
+export async function getBlockByTag(tag: string): Promise<StoredBlock | null> {
+  switch (tag) {
+    case "latest":
+    case "safe":
+    case "finalized":
+      return getLatestBlock();
+    case "earliest":
+      await getLatestBlock();
+      return getBridgeStore().getBlock("0x0");
+    default:
+      if (!/^0x[0-9a-fA-F]+$/.test(tag)) {
+        throw new RpcError(
+          JSON_RPC_ERRORS.INVALID_PARAMS,
+          `Invalid block number or tag: ${tag}`
+        );
+      }
+      return getBridgeStore().getBlock(tag);
+  }
+}
+
+/**
+ * The block that would be sealed next: the transactions the bridge has
+ * forwarded but the derived lane node has not executed yet.
+ */
+export async function getPendingBlock() {
+  const latest = await getLatestBlock();
+  const pending = await getBridgeStore().getPendingTransactions();
+  return {
+    number: toHex(BigInt(latest.number) + 1n),
+    parentHash: latest.hash,
+    timestamp: Math.max(Date.now(), latest.timestamp),
+    transactions: pending,
+  };
+}
+
+/** Ethereum JSON-RPC transaction object for a stored transaction */
+export function formatTransaction(
+  tx: StoredTransaction,
+  transactionIndex: number | null
+) {
+  const chainId = toHex(getBridgeLane().chainId);
+  const formatted: Record<string, unknown> = {
+    hash: tx.hash,
+    blockHash: tx.blockHash,
+    blockNumber: tx.blockNumber,
+    transactionIndex:
+      transactionIndex === null ? null : toHex(transactionIndex),
+    from: tx.from,
+    to: tx.to,
+    input: tx.data,
+    value: "0x0",
+    gas: toHex(DEFAULT_GAS),
+    gasPrice: toHex(gasPrice()),
+    nonce: "0x0",
+    type: "0x0",
+    chainId,
+  };
+
+  // Signed transactions carry the real nonce, gas, fee fields and signature
+  if (tx.raw) {
+    const parsed = parseTransaction(tx.raw as TransactionSerialized);
+    Object.assign(formatted, {
+      nonce: toHex(parsed.nonce ?? 0),
+      gas: toHex(parsed.gas ?? DEFAULT_GAS),
+      value: toHex(parsed.value ?? 0n),
+      type: rpcTransactionType[parsed.type as keyof typeof rpcTransactionType],
+      r: parsed.r,
+      s: parsed.s,
+      yParity: parsed.yParity === undefined ? undefined : toHex(parsed.yParity),
+    });
+    // Typed transactions report v as the y parity, legacy ones as 27/28 or EIP-155
+    if (parsed.type === "legacy" && parsed.v !== undefined) {
+      formatted.v = toHex(parsed.v);
+    } else if (parsed.yParity !== undefined) {
+      formatted.v = toHex(parsed.yParity);
+    }
+    if (parsed.type === "eip1559") {
+      Object.assign(formatted, {
+        maxFeePerGas: toHex(parsed.maxFeePerGas ?? 0n),
+        maxPriorityFeePerGas: toHex(parsed.maxPriorityFeePerGas ?? 0n),
+        // What the transaction pays once included, as nodes report it
+        gasPrice: toHex(effectiveGasPrice(tx)),
+      });
+    } else if (parsed.gasPrice !== undefined) {
+      formatted.gasPrice = toHex(parsed.gasPrice);
+    }
+    if (parsed.type !== "legacy") {
+      formatted.accessList =
+        ("accessList" in parsed && parsed.accessList) || [];
+    }
+  }
+  return formatted;
+}
+
+/**
+ * Ethereum JSON-RPC block object. With `fullTransactions` the block lists
+ * transaction objects instead of hashes.
+ */
+export async function formatBlock(
+  block: StoredBlock,
+  fullTransactions: boolean
+) {
+  const store = getBridgeStore();
+  const transactions = (
+    await Promise.all(
+      block.transactions.map((hash) => store.getTransaction(hash))
+    )
+  ).filter((tx): tx is StoredTransaction => tx !== null);
+  const gasUsed = transactions.reduce((total, tx) => total + gasUsedOf(tx), 0n);
+
+  return {
+    number: block.number,
+    hash: block.hash,
+    parentHash: block.parentHash,
+    nonce: "0x0000000000000000",
+    sha3Uncles: EMPTY_UNCLES_HASH,
+    logsBloom: logsBloom(transactions.flatMap((tx) => tx.logs ?? [])),
+    transactionsRoot: transactionsRoot(block.transactions),
+    stateRoot: ZERO_HASH,
+    receiptsRoot: ZERO_HASH,
+    miner: zeroAddress,
+    mixHash: ZERO_HASH,
+    difficulty: "0x0",
+    totalDifficulty: "0x0",
+    extraData: "0x",
+    size: toHex(512 + 32 * block.transactions.length),
+    gasLimit: toHex(BLOCK_GAS_LIMIT),
+    gasUsed: toHex(gasUsed),
+    timestamp: toHex(Math.floor(block.timestamp / 1000)),
+    baseFeePerGas: toHex(BASE_FEE_PER_GAS),
+    transactions: fullTransactions
+      ? transactions.map((tx, index) => formatTransaction(tx, index))
+      : block.transactions,
+    uncles: [],
+  };
+}
+
+/** The pending block in JSON-RPC form; hash and nonce are null per spec */
+export async function formatPendingBlock(fullTransactions: boolean) {
+  const pending = await getPendingBlock();
+  return {
+    number: pending.number,
+    hash: null,
+    parentHash: pending.parentHash,
+    nonce: null,
+    sha3Uncles: EMPTY_UNCLES_HASH,
+    logsBloom: null,
+    transactionsRoot: transactionsRoot(
+      pending.transactions.map((tx) => tx.hash)
+    ),
+    stateRoot: ZERO_HASH,
+    receiptsRoot: ZERO_HASH,
+    miner: null,
+    mixHash: ZERO_HASH,
+    difficulty: "0x0",
+    totalDifficulty: null,
+    extraData: "0x",
+    size: toHex(512 + 32 * pending.transactions.length),
+    gasLimit: toHex(BLOCK_GAS_LIMIT),
+    gasUsed: "0x0",
+    timestamp: toHex(Math.floor(pending.timestamp / 1000)),
+    baseFeePerGas: toHex(BASE_FEE_PER_GAS),
+    transactions: fullTransactions
+      ? pending.transactions.map((tx) => formatTransaction(tx, null))
+      : pending.transactions.map((tx) => tx.hash),
+    uncles: [],
+  };
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from "next/server";
+
+/**
+ * Cross-origin access to the RPC bridge
+ *
+ * Only the origins listed in RPC_ALLOWED_ORIGINS (comma-separated, `*` for
+ * any) may call the bridge from a browser; the app's own pages are always
+ * allowed. CORS headers alone would only hide the response from other sites,
+ * so a request whose Origin is not allowed is refused before it runs: a
+ * simple text/plain POST needs no preflight and would otherwise still reach
+ * the lane.
+ */
+
+const ALLOWED_ORIGINS = (process.env.RPC_ALLOWED_ORIGINS || "")
+  .split(",")
+  .map((origin) => origin.trim().replace(/\/$/, ""))
+  .filter(Boolean);
+
+/**
+ * Whether a request may be served, judged by its Origin header. Requests
+ * without one are allowed on purpose: servers, scripts, CLI tools and
+ * same-origin GETs send none, and a browser always sends it on the
+ * cross-origin requests this check is for. Non-browser clients are held back
+ * by the rate limits instead (see lib/bridge/limits).
+ */
+export function isOriginAllowed(request: NextRequest): boolean {
+  const origin = request.headers.get("origin");
+  if (!origin) return true;
+  if (origin === request.nextUrl.origin) return true;
+  return ALLOWED_ORIGINS.includes("*") || ALLOWED_ORIGINS.includes(origin);
+}
+
+/** CORS response headers for the request's origin, if it is allowed */
+export function corsHeaders(
+  request: NextRequest,
+  methods: string
+): Record<string, string> {
+  const origin = request.headers.get("origin");
+  if (!origin || !isOriginAllowed(request)) return {};
+  return {
+    "Access-Control-Allow-Origin": ALLOWED_ORIGINS.includes("*") ? "*" : origin,
+    "Access-Control-Allow-Methods": methods,
+    "Access-Control-Allow-Headers": "Content-Type, X-Request-Id",
+    "Access-Control-Expose-Headers": "Retry-After, X-Request-Id",
+    Vary: "Origin",
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * JSON-RPC error codes used by the bridge. The -32700..-32603 range is from
+ * the JSON-RPC 2.0 spec; -32010 and up are bridge-specific transaction
+ * rejections so wallets can tell the failure reasons apart. -32000 is the
+ * code nodes use for unknown filters; viem re-creates its filter on it.
+ * -32005 is EIP-1474's "limit exceeded" for rate limits and quotas. 3 is
+ * the "execution reverted" code of eth_call / eth_estimateGas, with the
+ * ABI-encoded Error(string) reason as `data`.
+ */
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  FILTER_NOT_FOUND: -32000,
+  LIMIT_EXCEEDED: -32005,
+  NONCE_TOO_LOW: -32010,
+  NONCE_TOO_HIGH: -32011,
+  WRONG_CHAIN_ID: -32012,
+  UNPROTECTED_TRANSACTION: -32013,
+  UNSUPPORTED_TRANSACTION_TYPE: -32014,
+  NOT_TOKEN_OWNER: -32015,
+  TOKEN_ALREADY_MINTED: -32016,
+  EXECUTION_REVERTED: 3,
+};
+
+/**
+ * Error that maps directly onto a JSON-RPC error response. Throw it from any
+ * bridge helper; the dispatcher turns it into `{ code, message, data }`.
+ */
+export class RpcError extends Error {
+  constructor(readonly code: number, message: string, readonly data?: unknown) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
@@ -0,0 +1,63 @@
+import { EventEmitter } from "events";
+import {
+  LaneBlockHead,
+  LaneTokenEvent,
+  LaneTransactionStatus,
+} from "@/lib/nft-types";
+import { logger } from "./logger";
+import { EthLog } from "./logs";
+
+/**
+ * In-process event bus for the RPC bridge
+ *
+ * The JSON-RPC route and the receipt watcher publish here; the event stream
+ * (/api/rpc/events) fans the events out to connected clients. Event types are
+ * the subscription names clients ask for.
+ */
+
+export type BridgeEvent =
+  | { type: "newHeads"; result: LaneBlockHead }
+  | { type: "logs"; result: EthLog }
+  | { type: "newPendingTransactions"; result: string }
+  | { type: "lane_transactions"; result: LaneTransactionStatus }
+  | { type: "lane_tokens"; result: LaneTokenEvent };
+
+// Kept on globalThis so every route bundle and dev hot reload share one bus
+const globalEvents = globalThis as typeof globalThis & {
+  __bridgeEvents?: EventEmitter;
+};
+
+function getEmitter(): EventEmitter {
+  if (!globalEvents.__bridgeEvents) {
+    globalEvents.__bridgeEvents = new EventEmitter();
+    // One listener per connected client
+    globalEvents.__bridgeEvents.setMaxListeners(0);
+  }
+  return globalEvents.__bridgeEvents;
+}
+
+export function publishBridgeEvent(event: BridgeEvent) {
+  getEmitter().emit("event", event);
+}
+
+/**
+ * Listen to every bridge event; returns the unsubscribe function. A listener
+ * that throws is logged and skipped, so it can't keep the event from the
+ * other listeners or fail the publisher.
+ */
+export function subscribeBridgeEvents(
+  listener: (event: BridgeEvent) => void
+): () => void {
+  const emitter = getEmitter();
+  const guarded = (event: BridgeEvent) => {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.error("event listener failed", { event: event.type, error });
+    }
+  };
+  emitter.on("event", guarded);
+  return () => {
+    emitter.off("event", guarded);
+  };
+}
@@ -0,0 +1,126 @@
+import { Hex, parseTransaction, toHex, TransactionSerialized } from "viem";
+import { getBlockByTag, getLatestBlock } from "./blocks";
+import { JSON_RPC_ERRORS, RpcError } from "./errors";
+import { getBridgeStore, StoredTransaction } from "./store";
+
+/**
+ * EIP-1559 fee market of the bridge's chain
+ *
+ * Lane transactions cost nothing to execute and are sequenced in arrival
+ * order, so there is no congestion to price: every block has the same base
+ * fee and tips buy nothing. Wallets still need a fee market to fill in
+ * maxFeePerGas and maxPriorityFeePerGas, and the answers here agree with the
+ * blocks (see lib/bridge/blocks) and receipts the bridge serves.
+ */
+
+// 1 gwei, the gas price the bridge has always quoted
+export const BASE_FEE_PER_GAS = 1_000_000_000n;
+export const MAX_PRIORITY_FEE_PER_GAS = 0n;
+export const BLOCK_GAS_LIMIT = 30_000_000n;
+// Gas of a plain transfer, used for transactions the bridge did not see signed
+export const DEFAULT_GAS = 21_000n;
+
+// Same cap as geth
+const MAX_FEE_HISTORY_BLOCKS = 1024;
+
+/** eth_gasPrice: what a legacy transaction needs to pay to be included */
+export function gasPrice(): bigint {
+  return BASE_FEE_PER_GAS + MAX_PRIORITY_FEE_PER_GAS;
+}
+
+/**
+ * Price per gas a transaction actually paid: its gas price if legacy,
+ * otherwise the base fee plus its tip, capped at maxFeePerGas.
+ */
+export function effectiveGasPrice(tx: StoredTransaction): bigint {
+  if (!tx.raw) return gasPrice();
+  const parsed = parseTransaction(tx.raw as TransactionSerialized);
+  if (parsed.maxFeePerGas !== undefined) {
+    const tip = parsed.maxPriorityFeePerGas ?? 0n;
+    const price = BASE_FEE_PER_GAS + tip;
+    return price < parsed.maxFeePerGas ? price : parsed.maxFeePerGas;
+  }
+  return parsed.gasPrice ?? gasPrice();
+}
+
+export function gasUsedOf(tx: StoredTransaction): bigint {
+  return tx.gasUsed ? BigInt(tx.gasUsed) : DEFAULT_GAS;
+}
+
+// Tip at each percentile of the block's transactions, weighted by gas used
+function blockRewards(
+  transactions: StoredTransaction[],
+  percentiles: number[]
+): Hex[] {
+  if (transactions.length === 0) return percentiles.map(() => "0x0");
+
+  const tips = transactions
+    .map((tx) => ({
+      tip: effectiveGasPrice(tx) - BASE_FEE_PER_GAS,
+      gas: gasUsedOf(tx),
+    }))
+    .sort((a, b) => (a.tip < b.tip ? -1 : a.tip > b.tip ? 1 : 0));
+  const totalGas = tips.reduce((total, { gas }) => total + gas, 0n);
+
+  return percentiles.map((percentile) => {
+    const threshold = (Number(totalGas) * percentile) / 100;
+    let sum = 0;
+    for (const { tip, gas } of tips) {
+      sum += Number(gas);
+      if (sum >= threshold) return toHex(tip);
+    }
+    return toHex(tips[tips.length - 1].tip);
+  });
+}
+
+/**
+ * eth_feeHistory over the `blockCount` blocks ending at `newestBlock`.
+ * baseFeePerGas has one more entry than the range: the next block's.
+ */
+export async function feeHistory(
+  blockCount: number | Hex,
+  newestBlock: string,
+  percentiles?: number[]
+) {
+  const count = Math.min(Number(BigInt(blockCount)), MAX_FEE_HISTORY_BLOCKS);
+
+  // Nothing is sealed into the pending block yet, so it reports as the head
+  const latest = await getLatestBlock();
+  const newest =
+    newestBlock === "pending" ? latest : await getBlockByTag(newestBlock);
+  if (!newest) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.INVALID_PARAMS,
+      `Block ${newestBlock} does not exist yet`
+    );
+  }
+
+  const newestNumber = BigInt(newest.number);
+  const oldest =
+    newestNumber + 1n > BigInt(count) ? newestNumber + 1n - BigInt(count) : 0n;
+
+  const store = getBridgeStore();
+  const gasUsedRatio: number[] = [];
+  const reward: Hex[][] = [];
+  for (let number = oldest; number <= newestNumber; number++) {
+    const block = await store.getBlock(toHex(number));
+    const transactions = (
+      await Promise.all(
+        (block?.transactions ?? []).map((hash) => store.getTransaction(hash))
+      )
+    ).filter((tx): tx is StoredTransaction => tx !== null);
+    const gasUsed = transactions.reduce(
+      (total, tx) => total + gasUsedOf(tx),
+      0n
+    );
+    gasUsedRatio.push(Number(gasUsed) / Number(BLOCK_GAS_LIMIT));
+    if (percentiles) reward.push(blockRewards(transactions, percentiles));
+  }
+
+  return {
+    oldestBlock: toHex(oldest),
+    baseFeePerGas: gasUsedRatio.concat(0).map(() => toHex(BASE_FEE_PER_GAS)),
+    gasUsedRatio,
+    ...(percentiles ? { reward } : {}),
+  };
+}
@@ -0,0 +1,198 @@
+import crypto from "crypto";
+import { Hex, toHex } from "viem";
+import { getBlockByTag, getLatestBlock } from "./blocks";
+import { JSON_RPC_ERRORS, RpcError } from "./errors";
+import { EthLog, LogFilter, matchesLogFilter } from "./logs";
+import { getBridgeStore, StoredBlock } from "./store";
+
+/**
+ * Log queries and polling filters over the bridge's chain
+ *
+ * eth_getLogs reads the Transfer logs stored with each sealed transaction
+ * (see lib/bridge/receipts). Filters (eth_newFilter, eth_newBlockFilter) keep
+ * a cursor at the last block they reported; eth_getFilterChanges returns
+ * what was sealed since. Filters live in process memory and are dropped
+ * after FILTER_TIMEOUT without a poll, like a node's.
+ */
+
+export interface LogQuery extends LogFilter {
+  fromBlock?: string;
+  toBlock?: string;
+  blockHash?: string;
+}
+
+const MAX_BLOCK_RANGE = 10_000;
+const FILTER_TIMEOUT = 5 * 60 * 1000;
+
+interface InstalledFilter {
+  kind: "logs" | "blocks";
+  query: LogQuery;
+  // Last block number already reported by eth_getFilterChanges
+  cursor: bigint;
+  lastPolled: number;
+}
+
+// Kept on globalThis so every route bundle sees the same filters
+const globalFilters = globalThis as typeof globalThis & {
+  __bridgeFilters?: Map<string, InstalledFilter>;
+};
+
+function getFilters() {
+  if (!globalFilters.__bridgeFilters) {
+    globalFilters.__bridgeFilters = new Map();
+  }
+  return globalFilters.__bridgeFilters;
+}
+
+function pruneFilters() {
+  const now = Date.now();
+  for (const [id, filter] of getFilters()) {
+    if (now - filter.lastPolled > FILTER_TIMEOUT) getFilters().delete(id);
+  }
+}
+
+async function blockNumberOf(tag: string | undefined, fallback: string) {
+  // Nothing is sealed into the pending block, so it has no logs of its own
+  const block = await getBlockByTag(
+    tag === undefined || tag === "pending" ? fallback : tag
+  );
+  if (block) return BigInt(block.number);
+  // A number past the head is allowed and simply matches nothing yet
+  return BigInt(tag as string);
+}
+
+async function logsInBlocks(blocks: StoredBlock[], filter: LogFilter) {
+  const store = getBridgeStore();
+  const logs: EthLog[] = [];
+  for (const block of blocks) {
+    for (const hash of block.transactions) {
+      const tx = await store.getTransaction(hash);
+      logs.push(
+        ...(tx?.logs ?? []).filter((log) => matchesLogFilter(log, filter))
+      );
+    }
+  }
+  return logs;
+}
+
+async function blocksInRange(from: bigint, to: bigint) {
+  if (to - from >= BigInt(MAX_BLOCK_RANGE)) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.INVALID_PARAMS,
+      `Block range exceeds ${MAX_BLOCK_RANGE} blocks`
+    );
+  }
+
+  const store = getBridgeStore();
+  const blocks: StoredBlock[] = [];
+  for (let number = from; number <= to; number++) {
+    const block = await store.getBlock(toHex(number));
+    if (block) blocks.push(block);
+  }
+  return blocks;
+}
+
+/** eth_getLogs: by block hash, or over fromBlock..toBlock (default latest) */
+export async function getLogs(query: LogQuery): Promise<EthLog[]> {
+  if (query.blockHash) {
+    const block = await getBridgeStore().getBlockByHash(query.blockHash);
+    if (!block) {
+      throw new RpcError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Unknown block ${query.blockHash}`
+      );
+    }
+    return logsInBlocks([block], query);
+  }
+
+  const latest = BigInt((await getLatestBlock()).number);
+  const from = await blockNumberOf(query.fromBlock, "latest");
+  let to = await blockNumberOf(query.toBlock, "latest");
+  if (to > latest) to = latest;
+  return from > to ? [] : logsInBlocks(await blocksInRange(from, to), query);
+}
+
+function newFilterId(): Hex {
+  return `0x${crypto.randomBytes(16).toString("hex")}`;
+}
+
+/** eth_newFilter: log filter reporting logs sealed after it was installed */
+export async function newLogFilter(query: LogQuery): Promise<Hex> {
+  pruneFilters();
+  const latest = BigInt((await getLatestBlock()).number);
+  const from =
+    query.fromBlock === undefined
+      ? latest + 1n
+      : await blockNumberOf(query.fromBlock, "latest");
+
+  const id = newFilterId();
+  getFilters().set(id, {
+    kind: "logs",
+    query,
+    cursor: from - 1n,
+    lastPolled: Date.now(),
+  });
+  return id;
+}
+
+/** eth_newBlockFilter: reports the hashes of blocks sealed after it */
+export async function newBlockFilter(): Promise<Hex> {
+  pruneFilters();
+  const id = newFilterId();
+  getFilters().set(id, {
+    kind: "blocks",
+    query: {},
+    cursor: BigInt((await getLatestBlock()).number),
+    lastPolled: Date.now(),
+  });
+  return id;
+}
+
+function findFilter(id: unknown): InstalledFilter {
+  pruneFilters();
+  const filter = typeof id === "string" ? getFilters().get(id) : undefined;
+  if (!filter) {
+    throw new RpcError(JSON_RPC_ERRORS.FILTER_NOT_FOUND, "filter not found");
+  }
+  filter.lastPolled = Date.now();
+  return filter;
+}
+
+/** eth_getFilterChanges: what the filter has not reported yet */
+export async function getFilterChanges(
+  id: unknown
+): Promise<EthLog[] | string[]> {
+  const filter = findFilter(id);
+  let to = BigInt((await getLatestBlock()).number);
+  if (filter.query.toBlock !== undefined) {
+    const limit = await blockNumberOf(filter.query.toBlock, "latest");
+    if (limit < to) to = limit;
+  }
+  if (to <= filter.cursor) return [];
+  // Catch up in steps when the filter has fallen far behind
+  if (to - filter.cursor > BigInt(MAX_BLOCK_RANGE)) {
+    to = filter.cursor + BigInt(MAX_BLOCK_RANGE);
+  }
+
+  const blocks = await blocksInRange(filter.cursor + 1n, to);
+  filter.cursor = to;
+  return filter.kind === "blocks"
+    ? blocks.map((block) => block.hash)
+    : logsInBlocks(blocks, filter.query);
+}
+
+/** eth_getFilterLogs: every log matching a log filter's full range */
+export async function getFilterLogs(id: unknown): Promise<EthLog[]> {
+  const filter = findFilter(id);
+  if (filter.kind !== "logs") {
+    throw new RpcError(
+      JSON_RPC_ERRORS.FILTER_NOT_FOUND,
+      "filter not found (not a log filter)"
+    );
+  }
+  return getLogs(filter.query);
+}
+
+export function uninstallFilter(id: unknown): boolean {
+  return typeof id === "string" && getFilters().delete(id);
+}
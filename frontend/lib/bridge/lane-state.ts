@@ -0,0 +1,93 @@
+import {
+  LaneOperationPage,
+  NftToken,
+  NftTokenPage,
+  TokenFilter,
+} from "@/lib/nft-types";
+import { getBridgeLane } from "@/lib/lanes";
+import { JSON_RPC_ERRORS, RpcError } from "./errors";
+import { getRequestContext, REQUEST_ID_HEADER } from "./logger";
+
+/**
+ * Read access to the lane's NFT state
+ *
+ * Queries go to the lane container's read endpoints (GET /nfts, /nfts/:id,
+ * /supply, /operations in app.py), which serve the same state /submit writes
+ * to.
+ */
+
+const LANE_STATE_URL = getBridgeLane().laneStateUrl;
+
+export const MAX_PAGE_SIZE = 100;
+
+async function queryLaneState<T>(path: string): Promise<T | null> {
+  let response: Response;
+  try {
+    // Carries the request id so container logs can be matched to bridge logs
+    const requestId = getRequestContext()?.requestId;
+    response = await fetch(`${LANE_STATE_URL}${path}`, {
+      headers: requestId ? { [REQUEST_ID_HEADER]: requestId } : {},
+    });
+  } catch (error) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.INTERNAL_ERROR,
+      "Lane state unavailable",
+      error instanceof Error ? error.message : undefined
+    );
+  }
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.INTERNAL_ERROR,
+      "Lane state query failed",
+      await response.text()
+    );
+  }
+  return (await response.json()) as T;
+}
+
+export function getToken(tokenId: string) {
+  return queryLaneState<NftToken>(`/nfts/${encodeURIComponent(tokenId)}`);
+}
+
+export async function listTokens(
+  filter: TokenFilter & { digest?: string } = {}
+): Promise<NftTokenPage> {
+  const query = new URLSearchParams({
+    offset: String(filter.offset ?? 0),
+    limit: String(Math.min(filter.limit ?? 20, MAX_PAGE_SIZE)),
+  });
+  if (filter.owner) query.set("owner", filter.owner);
+  if (filter.digest) query.set("digest", filter.digest);
+
+  const page = await queryLaneState<NftTokenPage>(`/nfts?${query}`);
+  return page ?? { tokens: [], total: 0, offset: 0, limit: 0 };
+}
+
+export async function getTotalSupply(): Promise<number> {
+  const stats = await queryLaneState<{ total_supply: number }>("/supply");
+  return stats?.total_supply ?? 0;
+}
+
+// Executed mints, transfers and burns, in execution order
+export async function listOperations(
+  filter: {
+    digest?: string;
+    tokenId?: string;
+    sender?: string;
+    offset?: number;
+    limit?: number;
+  } = {}
+): Promise<LaneOperationPage> {
+  const query = new URLSearchParams({
+    offset: String(filter.offset ?? 0),
+    limit: String(Math.min(filter.limit ?? 20, MAX_PAGE_SIZE)),
+  });
+  if (filter.digest) query.set("digest", filter.digest);
+  if (filter.tokenId) query.set("token_id", filter.tokenId);
+  if (filter.sender) query.set("sender", filter.sender);
+
+  const page = await queryLaneState<LaneOperationPage>(`/operations?${query}`);
+  return page ?? { operations: [], total: 0, offset: 0, limit: 0 };
+}
@@ -0,0 +1,178 @@
+import { Hex } from "viem";
+import { decodeLaneCalldata } from "@/lib/lane-codec";
+import { JSON_RPC_ERRORS, RpcError } from "./errors";
+import { recordRateLimit } from "./metrics";
+import { getRpcMethod, MethodKind } from "./registry";
+import { getBridgeStore } from "./store";
+
+/**
+ * Rate limits and quotas of the RPC bridge
+ *
+ * Token buckets, refilled continuously over a minute:
+ * - per client IP, one budget for read methods (RPC_READ_LIMIT per minute,
+ *   default 1200) and a smaller one for write methods (RPC_WRITE_LIMIT, 120;
+ *   a method's kind is declared in lib/bridge/registry)
+ * - per recovered sender address, for send methods (RPC_SENDER_LIMIT, 60)
+ *
+ * And a daily quota of mints per sender (RPC_DAILY_MINT_QUOTA, default 1000,
+ * counted per UTC day from the bridge's transaction records, so it holds
+ * across restarts). A limit set to 0 is off.
+ *
+ * Exceeding any of them is a -32005 "limit exceeded" error (EIP-1474) with
+ * `retryAfter` in seconds as data.
+ */
+
+function limitFromEnv(name: string, fallback: number) {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const LIMITS = {
+  read: limitFromEnv("RPC_READ_LIMIT", 1200),
+  write: limitFromEnv("RPC_WRITE_LIMIT", 120),
+  sender: limitFromEnv("RPC_SENDER_LIMIT", 60),
+  dailyMints: limitFromEnv("RPC_DAILY_MINT_QUOTA", 1000),
+};
+
+const WINDOW = 60_000;
+const DAY = 24 * 60 * 60 * 1000;
+// Buckets untouched this long are full again and can be forgotten
+const IDLE_BUCKET_TIMEOUT = 10 * 60 * 1000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Kept on globalThis so every route bundle draws from the same buckets
+const globalLimits = globalThis as typeof globalThis & {
+  __bridgeRateLimits?: Map<string, Bucket>;
+};
+
+function getBuckets() {
+  if (!globalLimits.__bridgeRateLimits) {
+    globalLimits.__bridgeRateLimits = new Map();
+  }
+  return globalLimits.__bridgeRateLimits;
+}
+
+function pruneBuckets(now: number) {
+  for (const [key, bucket] of getBuckets()) {
+    if (now - bucket.updatedAt > IDLE_BUCKET_TIMEOUT) getBuckets().delete(key);
+  }
+}
+
+export class RateLimitError extends RpcError {
+  constructor(message: string, readonly retryAfter: number) {
+    super(JSON_RPC_ERRORS.LIMIT_EXCEEDED, message, { retryAfter });
+  }
+}
+
+// Take one token from the bucket, or throw with the wait for the next one
+function take(
+  limit: "read" | "write" | "sender",
+  key: string,
+  perMinute: number,
+  what: string
+) {
+  if (perMinute === 0) return;
+
+  const now = Date.now();
+  if (getBuckets().size > 10_000) pruneBuckets(now);
+  const bucket = getBuckets().get(key) ?? { tokens: perMinute, updatedAt: now };
+  const refill = ((now - bucket.updatedAt) / WINDOW) * perMinute;
+  bucket.tokens = Math.min(perMinute, bucket.tokens + refill);
+  bucket.updatedAt = now;
+  getBuckets().set(key, bucket);
+
+  if (bucket.tokens < 1) {
+    recordRateLimit(limit);
+    const retryAfter = Math.ceil(((1 - bucket.tokens) / perMinute) * 60);
+    throw new RateLimitError(
+      `limit exceeded: ${perMinute} ${what} per minute`,
+      retryAfter
+    );
+  }
+  bucket.tokens -= 1;
+}
+
+// As the method declares in the registry; anything else is a read
+export function methodKind(method: string): MethodKind {
+  return getRpcMethod(method)?.kind ?? "read";
+}
+
+/** Charge one request of `method` to the client IP's budget */
+export function consumeClientLimit(ip: string, method: string) {
+  const kind = methodKind(method);
+  take(kind, `${kind}:${ip}`, LIMITS[kind], `${kind} requests per client`);
+}
+
+/** Charge one transaction to its sender's budget */
+export function consumeSenderLimit(sender: string) {
+  take(
+    "sender",
+    `sender:${sender.toLowerCase()}`,
+    LIMITS.sender,
+    "transactions per sender"
+  );
+}
+
+function isMint(data: string) {
+  try {
+    return decodeLaneCalldata(data as Hex).operation.op === "mint";
+  } catch {
+    return false;
+  }
+}
+
+/** Reject a mint once its sender has used today's quota */
+export async function assertMintQuota(sender: string) {
+  if (LIMITS.dailyMints === 0) return;
+
+  const now = Date.now();
+  const dayStart = now - (now % DAY);
+  const minted = (
+    await getBridgeStore().getTransactionsBySender(sender)
+  ).filter(
+    (tx) =>
+      tx.timestamp >= dayStart && tx.status !== "failed" && isMint(tx.data)
+  ).length;
+
+  if (minted >= LIMITS.dailyMints) {
+    recordRateLimit("daily_mints");
+    throw new RateLimitError(
+      `limit exceeded: ${LIMITS.dailyMints} mints per address per day`,
+      Math.ceil((dayStart + DAY - now) / 1000)
+    );
+  }
+}
+
+// Proxies in front of the bridge that append to X-Forwarded-For
+const TRUSTED_PROXY_HOPS = limitFromEnv("RPC_TRUSTED_PROXY_HOPS", 0);
+// Set when the proxy in front of the bridge overwrites X-Real-IP
+const TRUST_X_REAL_IP = process.env.RPC_TRUST_X_REAL_IP === "true";
+
+/**
+ * Client IP of a request. Each trusted proxy appends the address it got the
+ * request from to X-Forwarded-For, so the client is the entry
+ * RPC_TRUSTED_PROXY_HOPS from the right; entries left of it were sent by the
+ * client and could be anything. X-Real-IP is read instead only when
+ * RPC_TRUST_X_REAL_IP says a proxy sets it.
+ *
+ * Route handlers don't see the socket address (Next.js only fills in
+ * X-Forwarded-For from it when the request has none, so a client's own header
+ * would win). With 0 hops, the default, no header is trusted and all clients
+ * share the "unknown" budget.
+ */
+export function clientIp(headers: Headers): string {
+  if (TRUST_X_REAL_IP) return headers.get("x-real-ip") || "unknown";
+  if (TRUSTED_PROXY_HOPS === 0) return "unknown";
+
+  const forwarded = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded.length
+    ? forwarded[Math.max(forwarded.length - TRUSTED_PROXY_HOPS, 0)]
+    : "unknown";
+}
@@ -0,0 +1,154 @@
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+
+/**
+ * Structured logging for the RPC bridge
+ *
+ * One JSON object per line on stdout, so log pipelines can search and alert
+ * on fields instead of parsing text:
+ *
+ *   {"time":"…","level":"info","msg":"rpc request","requestId":"…",
+ *    "method":"eth_sendRawTransaction","sender":"0x…","txHash":"0x…",
+ *    "outcome":"ok","latencyMs":41,"backendMs":35}
+ *
+ * Everything logged while handling a request carries its requestId and
+ * method, plus the sender and transaction hash once they are known. The id
+ * comes from the caller's X-Request-Id header when it sends a usable one (so
+ * a browser can pick it), is returned in the response, and is sent with
+ * every call to the derived lane node and the lane container's state API. The
+ * container tags its log lines with it (app.py), so lane state reads can be
+ * followed from the browser to the container; its log lines for a
+ * submission carry the id only if the derived lane node passes the header on.
+ *
+ * LOG_LEVEL picks the lowest level written (debug, info, warn, error;
+ * default info). Signatures, raw transactions and credentials are redacted,
+ * and long hex values such as calldata are shortened.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const MIN_LEVEL =
+  LEVELS[(process.env.LOG_LEVEL?.toLowerCase() as LogLevel) ?? "info"] ??
+  LEVELS.info;
+
+// Keys whose values never reach the logs
+const REDACTED_KEYS = new Set([
+  "raw",
+  "rawtx",
+  "signature",
+  "r",
+  "s",
+  "privatekey",
+  "authorization",
+  "cookie",
+  "password",
+  "secret",
+]);
+const MAX_HEX_LENGTH = 66;
+const MAX_DEPTH = 4;
+
+/** Fields of the request being handled, shared by everything it logs */
+export interface RequestContext {
+  requestId: string;
+  ip?: string;
+  method?: string;
+  sender?: string;
+  txHash?: string;
+  // Time spent waiting on the derived lane node
+  backendMs: number;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+/** The caller's request id if it looks like one, else a fresh one */
+export function requestIdFrom(headers: Headers): string {
+  const incoming = headers.get(REQUEST_ID_HEADER);
+  return incoming && /^[\w.:-]{1,128}$/.test(incoming)
+    ? incoming
+    : crypto.randomUUID();
+}
+
+export function runWithRequestContext<T>(
+  context: Omit<RequestContext, "backendMs">,
+  fn: () => T
+): T {
+  return requestContext.run({ ...context, backendMs: 0 }, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return requestContext.getStore();
+}
+
+/** Attach fields (method, sender, tx hash) to the current request */
+export function annotateRequest(
+  fields: Partial<Omit<RequestContext, "requestId">>
+) {
+  const context = requestContext.getStore();
+  if (context) Object.assign(context, fields);
+}
+
+function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "string") {
+    return /^0x[0-9a-fA-F]*$/.test(value) && value.length > MAX_HEX_LENGTH
+      ? `${value.slice(0, MAX_HEX_LENGTH)}…(${(value.length - 2) / 2} bytes)`
+      : value;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  if (typeof value !== "object" || value === null) return value;
+  if (depth >= MAX_DEPTH) return "[…]";
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [
+      key,
+      REDACTED_KEYS.has(key.toLowerCase())
+        ? "[redacted]"
+        : redact(v, depth + 1),
+    ])
+  );
+}
+
+function write(level: LogLevel, msg: string, fields?: Record<string, unknown>) {
+  if (LEVELS[level] < MIN_LEVEL) return;
+  const context = requestContext.getStore();
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...(context
+      ? {
+          requestId: context.requestId,
+          method: context.method,
+          sender: context.sender,
+          txHash: context.txHash,
+        }
+      : {}),
+    ...(redact(fields ?? {}) as Record<string, unknown>),
+  };
+  const line = JSON.stringify(entry);
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
+
+export const logger = {
+  debug: (msg: string, fields?: Record<string, unknown>) =>
+    write("debug", msg, fields),
+  info: (msg: string, fields?: Record<string, unknown>) =>
+    write("info", msg, fields),
+  warn: (msg: string, fields?: Record<string, unknown>) =>
+    write("warn", msg, fields),
+  error: (msg: string, fields?: Record<string, unknown>) =>
+    write("error", msg, fields),
+};
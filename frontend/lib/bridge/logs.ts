@@ -0,0 +1,118 @@
+import {
+  bytesToHex,
+  encodeAbiParameters,
+  Hex,
+  hexToBytes,
+  isAddress,
+  keccak256,
+  pad,
+  toBytes,
+  toHex,
+  zeroAddress,
+} from "viem";
+import { LaneTokenEvent } from "@/lib/nft-types";
+
+/**
+ * ERC-721 event logs for lane operations
+ *
+ * Lane state has no EVM contract, so the bridge synthesizes the Transfer
+ * event an ERC-721 contract at the lane address would have emitted: mints
+ * come from the zero address, burns go to it. Token IDs that are not decimal
+ * integers are hashed into the uint256 topic.
+ */
+
+export interface EthLog {
+  address: string;
+  topics: Hex[];
+  data: Hex;
+  blockNumber: string | null;
+  blockHash: string | null;
+  transactionHash: string;
+  transactionIndex: string;
+  logIndex: string;
+  removed: boolean;
+}
+
+export interface LogFilter {
+  address?: string | string[];
+  // Per position: null matches anything, an array matches any of its entries
+  topics?: (Hex | Hex[] | null)[];
+}
+
+// keccak256("Transfer(address,address,uint256)")
+export const TRANSFER_TOPIC = keccak256(
+  toBytes("Transfer(address,address,uint256)")
+);
+
+function addressTopic(value: string | null): Hex {
+  return pad(isAddress(value ?? "") ? (value as Hex) : zeroAddress, {
+    size: 32,
+  }).toLowerCase() as Hex;
+}
+
+export function tokenIdTopic(tokenId: string): Hex {
+  if (/^\d+$/.test(tokenId) && BigInt(tokenId) < 2n ** 256n) {
+    return encodeAbiParameters([{ type: "uint256" }], [BigInt(tokenId)]);
+  }
+  return keccak256(toBytes(tokenId));
+}
+
+export function transferLog(
+  event: LaneTokenEvent,
+  laneAddress: string,
+  position: {
+    blockHash: string | null;
+    transactionIndex: number;
+    logIndex: number;
+  }
+): EthLog {
+  return {
+    address: laneAddress.toLowerCase(),
+    topics: [
+      TRANSFER_TOPIC,
+      addressTopic(event.from),
+      addressTopic(event.to),
+      tokenIdTopic(event.tokenId),
+    ],
+    data: "0x",
+    blockNumber: event.blockNumber,
+    blockHash: position.blockHash,
+    transactionHash: event.hash,
+    transactionIndex: toHex(position.transactionIndex),
+    logIndex: toHex(position.logIndex),
+    removed: false,
+  };
+}
+
+/**
+ * 2048-bit bloom filter over the addresses and topics of `logs`, as in
+ * receipts and block headers: each value sets the three bits picked by the
+ * low 11 bits of the first three byte pairs of its keccak256 hash.
+ */
+export function logsBloom(logs: EthLog[]): Hex {
+  const bloom = new Uint8Array(256);
+  for (const log of logs) {
+    for (const value of [log.address as Hex, ...log.topics]) {
+      const hash = hexToBytes(keccak256(value));
+      for (let i = 0; i < 6; i += 2) {
+        const bit = ((hash[i] << 8) | hash[i + 1]) & 2047;
+        bloom[255 - Math.floor(bit / 8)] |= 1 << bit % 8;
+      }
+    }
+  }
+  return bytesToHex(bloom);
+}
+
+/** eth_getLogs / eth_subscribe("logs") address and topic matching */
+export function matchesLogFilter(log: EthLog, filter: LogFilter) {
+  if (filter.address) {
+    const addresses = [filter.address].flat().map((a) => a.toLowerCase());
+    if (!addresses.includes(log.address.toLowerCase())) return false;
+  }
+
+  return (filter.topics ?? []).every((wanted, index) => {
+    if (wanted === null || wanted === undefined) return true;
+    const topic = log.topics[index]?.toLowerCase();
+    return [wanted].flat().some((t) => t.toLowerCase() === topic);
+  });
+}
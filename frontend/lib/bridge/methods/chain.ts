@@ -0,0 +1,221 @@
+import { Hex, isAddressEqual, toHex } from "viem";
+import { getBridgeLane } from "@/lib/lanes";
+import packageJson from "@/package.json";
+import {
+  formatBlock,
+  formatPendingBlock,
+  getBlockByTag,
+  getLatestBlock,
+} from "../blocks";
+import { feeHistory, gasPrice, MAX_PRIORITY_FEE_PER_GAS } from "../fees";
+import { logger } from "../logger";
+import {
+  address,
+  blockRef,
+  blockTag,
+  boolean,
+  count,
+  hash,
+  optional,
+  percentiles,
+  transaction,
+} from "../params";
+import { defineRpcMethod } from "../registry";
+import { estimateLaneGas, simulateLaneCall } from "../simulate";
+import { getBridgeStore } from "../store";
+import { pollPendingTransactions } from "../watcher";
+
+/**
+ * Chain, fee and node-info methods
+ *
+ * - eth_chainId, net_version, net_listening, web3_clientVersion, eth_syncing,
+ *   eth_accounts: node info wallets query when connecting
+ * - eth_blockNumber, eth_getBlockByNumber (number or latest/safe/finalized/
+ *   pending/earliest), eth_getBlockByHash: the bridge's own chain, one block
+ *   per executed transaction (lib/bridge/blocks). eth_blockNumber also
+ *   resolves pending transactions in the background (lib/bridge/watcher)
+ * - eth_gasPrice, eth_maxPriorityFeePerGas, eth_feeHistory: a flat EIP-1559
+ *   fee market, the same base fee every block (lib/bridge/fees)
+ * - eth_getBalance: 1000 ETH for every account
+ * - eth_getCode: Placeholder code at the lane address so wallets treat it
+ *   as a contract, empty elsewhere
+ * - eth_call, eth_estimateGas: Dry-run the operation against lane state
+ *   (lib/bridge/simulate) and revert with the reason a submission would be
+ *   rejected for; the estimate is the intrinsic gas of the calldata
+ */
+
+const lane = getBridgeLane();
+const CHAIN_ID = toHex(lane.chainId);
+
+export const chainMethods = [
+  defineRpcMethod({
+    name: "eth_chainId",
+    kind: "read",
+    params: [],
+    handler: (): Hex => CHAIN_ID,
+  }),
+
+  defineRpcMethod({
+    name: "net_version",
+    kind: "read",
+    params: [],
+    // Decimal chain ID, as nodes report the network ID
+    handler: (): string => lane.chainId.toString(),
+  }),
+
+  defineRpcMethod({
+    name: "net_listening",
+    kind: "read",
+    params: [],
+    handler: (): boolean => true,
+  }),
+
+  defineRpcMethod({
+    name: "web3_clientVersion",
+    kind: "read",
+    params: [],
+    handler: (): string => `nft-lane-rpc-bridge/v${packageJson.version}`,
+  }),
+
+  defineRpcMethod({
+    name: "eth_syncing",
+    kind: "read",
+    params: [],
+    // The bridge's chain is its own, so it is always at the head
+    handler: (): false => false,
+  }),
+
+  defineRpcMethod({
+    name: "eth_accounts",
+    kind: "read",
+    params: [],
+    // The bridge holds no keys; wallets sign
+    handler: (): string[] => [],
+  }),
+
+  defineRpcMethod({
+    name: "eth_blockNumber",
+    kind: "read",
+    params: [],
+    handler: async (): Promise<string> => {
+      // A wallet waiting for its receipt only asks again once the head moves
+      pollPendingTransactions();
+      return (await getLatestBlock()).number;
+    },
+  }),
+
+  defineRpcMethod({
+    name: "eth_getBlockByNumber",
+    kind: "read",
+    params: [
+      optional(blockTag("block"), "latest"),
+      optional(boolean("fullTransactions"), false),
+    ],
+    handler: async (tag, fullTransactions) => {
+      if (tag === "pending") {
+        const pending = await formatPendingBlock(fullTransactions);
+        logger.debug("rpc result", {
+          block: "pending",
+          transactions: pending.transactions.length,
+        });
+        return pending;
+      }
+
+      const block = await getBlockByTag(tag);
+      logger.debug("rpc result", {
+        blockTag: tag,
+        block: block?.number ?? null,
+      });
+      return block ? formatBlock(block, fullTransactions) : null;
+    },
+  }),
+
+  defineRpcMethod({
+    name: "eth_getBlockByHash",
+    kind: "read",
+    params: [hash("blockHash"), optional(boolean("fullTransactions"), false)],
+    handler: async (blockHash, fullTransactions) => {
+      const block = await getBridgeStore().getBlockByHash(blockHash);
+      logger.debug("rpc result", { block: block?.number ?? null });
+      return block ? formatBlock(block, fullTransactions) : null;
+    },
+  }),
+
+  defineRpcMethod({
+    name: "eth_gasPrice",
+    kind: "read",
+    params: [],
+    // Base fee plus tip
+    handler: (): Hex => toHex(gasPrice()),
+  }),
+
+  defineRpcMethod({
+    name: "eth_maxPriorityFeePerGas",
+    kind: "read",
+    params: [],
+    handler: (): Hex => toHex(MAX_PRIORITY_FEE_PER_GAS),
+  }),
+
+  defineRpcMethod({
+    name: "eth_feeHistory",
+    kind: "read",
+    // Wallets send the block count as a number or a hex quantity
+    params: [
+      count("blockCount"),
+      optional(blockTag("newestBlock"), "latest"),
+      optional(percentiles("rewardPercentiles")),
+    ],
+    handler: async (blockCount, newestBlock, rewardPercentiles) => {
+      const history = await feeHistory(
+        blockCount,
+        newestBlock,
+        rewardPercentiles
+      );
+      logger.debug("rpc result", {
+        oldestBlock: history.oldestBlock,
+        blocks: history.gasUsedRatio.length,
+      });
+      return history;
+    },
+  }),
+
+  defineRpcMethod({
+    name: "eth_getBalance",
+    kind: "read",
+    params: [address("address"), optional(blockRef("block"))],
+    // 1000 ETH for every address
+    handler: (): Hex => "0x3635c9adc5dea00000",
+  }),
+
+  defineRpcMethod({
+    name: "eth_getCode",
+    kind: "read",
+    params: [address("address"), optional(blockRef("block"))],
+    handler: (account): Hex =>
+      // The lane has no EVM bytecode. A single INVALID opcode marks its
+      // address as a contract, which is how wallets should present calls to it.
+      isAddressEqual(account, lane.laneAddress) ? "0xfe" : "0x",
+  }),
+
+  defineRpcMethod({
+    name: "eth_call",
+    kind: "read",
+    params: [transaction("call"), optional(blockRef("block"))],
+    handler: async (call): Promise<Hex> => {
+      const operation = await simulateLaneCall(call);
+      logger.debug("rpc result", { op: operation?.op ?? null });
+      return "0x";
+    },
+  }),
+
+  defineRpcMethod({
+    name: "eth_estimateGas",
+    kind: "read",
+    params: [transaction("call"), optional(blockRef("block"))],
+    handler: async (call): Promise<Hex> => {
+      // Reverts (with the reason) when the operation would be rejected
+      await simulateLaneCall(call);
+      return estimateLaneGas(call);
+    },
+  }),
+];
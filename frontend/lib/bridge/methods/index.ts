@@ -0,0 +1,21 @@
+import { registerRpcMethod } from "../registry";
+import { chainMethods } from "./chain";
+import { laneMethods } from "./lane";
+import { logMethods } from "./logs";
+import { nftMethods } from "./nft";
+import { transactionMethods } from "./transactions";
+
+/**
+ * Registers the bridge's JSON-RPC methods (see lib/bridge/registry), then the
+ * lane's own (./lane). Imported by the RPC route.
+ */
+
+for (const method of [
+  ...chainMethods,
+  ...transactionMethods,
+  ...logMethods,
+  ...nftMethods,
+  ...laneMethods,
+]) {
+  registerRpcMethod(method);
+}
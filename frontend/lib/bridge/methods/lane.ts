@@ -0,0 +1,12 @@
+import { RpcMethod } from "../registry";
+
+/**
+ * Methods of the derived lane built on this bridge
+ *
+ * Registered after the bridge's own methods (see ./index), so a lane can add
+ * methods here, or replace one of the bridge's by reusing its name, without
+ * touching the registry or the dispatcher. Declare them with defineRpcMethod
+ * to get typed handler arguments (see lib/bridge/registry).
+ */
+
+export const laneMethods: RpcMethod[] = [];
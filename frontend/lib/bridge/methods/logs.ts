@@ -0,0 +1,67 @@
+import { Hex } from "viem";
+import {
+  getFilterChanges,
+  getFilterLogs,
+  getLogs,
+  newBlockFilter,
+  newLogFilter,
+  uninstallFilter,
+} from "../filters";
+import { EthLog } from "../logs";
+import { hexData, logFilter, optional } from "../params";
+import { defineRpcMethod } from "../registry";
+
+/**
+ * Log and filter methods
+ *
+ * eth_getLogs, eth_newFilter, eth_newBlockFilter, eth_getFilterChanges,
+ * eth_getFilterLogs, eth_uninstallFilter: ERC-721 Transfer logs of mints,
+ * transfers and burns (lib/bridge/logs, lib/bridge/filters). Receipts carry
+ * the same logs and their bloom. Filter queries ({ fromBlock, toBlock,
+ * address, topics } or { blockHash }) are checked by the logFilter params
+ * validator (lib/bridge/params).
+ */
+
+export const logMethods = [
+  defineRpcMethod({
+    name: "eth_getLogs",
+    kind: "read",
+    params: [optional(logFilter("filter"), {})],
+    handler: (filter): Promise<EthLog[]> => getLogs(filter),
+  }),
+
+  defineRpcMethod({
+    name: "eth_newFilter",
+    kind: "read",
+    params: [optional(logFilter("filter"), {})],
+    handler: (filter): Promise<Hex> => newLogFilter(filter),
+  }),
+
+  defineRpcMethod({
+    name: "eth_newBlockFilter",
+    kind: "read",
+    params: [],
+    handler: (): Promise<Hex> => newBlockFilter(),
+  }),
+
+  defineRpcMethod({
+    name: "eth_getFilterChanges",
+    kind: "read",
+    params: [hexData("filterId")],
+    handler: (filterId) => getFilterChanges(filterId),
+  }),
+
+  defineRpcMethod({
+    name: "eth_getFilterLogs",
+    kind: "read",
+    params: [hexData("filterId")],
+    handler: (filterId) => getFilterLogs(filterId),
+  }),
+
+  defineRpcMethod({
+    name: "eth_uninstallFilter",
+    kind: "read",
+    params: [hexData("filterId")],
+    handler: (filterId): boolean => uninstallFilter(filterId),
+  }),
+];
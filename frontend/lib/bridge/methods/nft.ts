@@ -0,0 +1,126 @@
+import {
+  MintTransaction,
+  NftToken,
+  NftTokenPage,
+  PageOptions,
+  TokenFilter,
+} from "@/lib/nft-types";
+import {
+  getToken,
+  getTotalSupply,
+  listTokens,
+  MAX_PAGE_SIZE,
+} from "../lane-state";
+import { logger } from "../logger";
+import { findMintTransaction } from "../mints";
+import { address, optional, param, string } from "../params";
+import { defineRpcMethod } from "../registry";
+
+/**
+ * NFT queries, read from lane state (see lib/bridge/lane-state)
+ *
+ * - nft_getToken(tokenId): Owner, metadata and mint time, or null
+ * - nft_tokensOfOwner(owner, { offset, limit }): Paginated tokens of an owner
+ * - nft_listTokens({ owner, offset, limit }): Paginated tokens, owner optional
+ * - nft_getMintTransaction(tokenId): The bridge transaction that minted it
+ * - nft_totalSupply(): Number of minted tokens
+ */
+
+const DEFAULT_PAGE_SIZE = 20;
+
+function isPage(value: unknown): value is PageOptions {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const { offset = 0, limit = DEFAULT_PAGE_SIZE } = value as PageOptions;
+  return (
+    Number.isInteger(offset) &&
+    offset >= 0 &&
+    Number.isInteger(limit) &&
+    limit >= 1 &&
+    limit <= MAX_PAGE_SIZE
+  );
+}
+
+const PAGE_EXPECTED = `{ offset, limit } with offset >= 0 and limit between 1 and ${MAX_PAGE_SIZE}`;
+
+const page = (name: string) => param<PageOptions>(name, PAGE_EXPECTED, isPage);
+
+const tokenFilter = (name: string) =>
+  param<TokenFilter>(
+    name,
+    `${PAGE_EXPECTED}, and owner a string`,
+    (value) =>
+      isPage(value) &&
+      ((value as TokenFilter).owner === undefined ||
+        typeof (value as TokenFilter).owner === "string")
+  );
+
+export const nftMethods = [
+  defineRpcMethod({
+    name: "nft_getToken",
+    kind: "read",
+    params: [string("tokenId")],
+    handler: async (tokenId): Promise<NftToken | null> => {
+      const token = await getToken(tokenId);
+      logger.debug("rpc result", { tokenId, owner: token?.owner ?? null });
+      return token;
+    },
+  }),
+
+  defineRpcMethod({
+    name: "nft_tokensOfOwner",
+    kind: "read",
+    params: [address("owner"), optional(page("page"), {})],
+    handler: async (
+      owner,
+      { offset = 0, limit = DEFAULT_PAGE_SIZE }
+    ): Promise<NftTokenPage> => {
+      const tokens = await listTokens({ owner, offset, limit });
+      logger.debug("rpc result", { owner, total: tokens.total });
+      return tokens;
+    },
+  }),
+
+  defineRpcMethod({
+    name: "nft_listTokens",
+    kind: "read",
+    params: [optional(tokenFilter("filter"), {})],
+    handler: async ({
+      owner,
+      offset = 0,
+      limit = DEFAULT_PAGE_SIZE,
+    }): Promise<NftTokenPage> => {
+      const tokens = await listTokens({ owner, offset, limit });
+      logger.debug("rpc result", { total: tokens.total });
+      return tokens;
+    },
+  }),
+
+  defineRpcMethod({
+    name: "nft_getMintTransaction",
+    kind: "read",
+    params: [string("tokenId")],
+    handler: async (tokenId): Promise<MintTransaction | null> => {
+      const token = await getToken(tokenId);
+      const tx = token ? await findMintTransaction(token) : null;
+      logger.debug("rpc result", { tokenId, txHash: tx?.hash ?? null });
+      return (
+        tx && {
+          hash: tx.hash,
+          from: tx.from,
+          status: tx.status,
+          blockNumber: tx.blockNumber,
+          timestamp: tx.timestamp,
+        }
+      );
+    },
+  }),
+
+  defineRpcMethod({
+    name: "nft_totalSupply",
+    kind: "read",
+    params: [],
+    handler: (): Promise<number> => getTotalSupply(),
+  }),
+];
@@ -0,0 +1,381 @@
+import { Hex, toHex } from "viem";
+import { getBridgeLane } from "@/lib/lanes";
+import { LaneTransactionStatus } from "@/lib/nft-types";
+import { callBackend } from "../backend";
+import { formatTransaction } from "../blocks";
+import { publishBridgeEvent } from "../events";
+import { DEFAULT_GAS, effectiveGasPrice, gasPrice, gasUsedOf } from "../fees";
+import { assertMintQuota, consumeSenderLimit } from "../limits";
+import { annotateRequest, logger } from "../logger";
+import { logsBloom } from "../logs";
+import { recordForwardedTransaction } from "../metrics";
+import { payloadDigest } from "../mints";
+import {
+  assertExpectedNonce,
+  getExpectedNonce,
+  markNonceUsed,
+  withNonceLock,
+} from "../nonces";
+import {
+  address,
+  blockRef,
+  hash,
+  hexData,
+  InvalidParamsError,
+  optional,
+  transaction,
+} from "../params";
+import { assertOperationExecutable, decodeLanePayload } from "../payload";
+import {
+  fetchDerivedLaneReceipt,
+  refreshTransactionStatus,
+  resolveLaneTransaction,
+} from "../receipts";
+import { defineRpcMethod } from "../registry";
+import { getBridgeStore } from "../store";
+import { isKnownTransactionError, submitOnce } from "../submissions";
+import { decodeSignedTransaction } from "../transactions";
+
+/**
+ * Transaction methods
+ *
+ * - eth_sendTransaction, eth_sendRawTransaction: Forward the transaction to
+ *   the derived lane node. Raw transactions are checked for their type, chain
+ *   ID and nonce first; both decode the calldata (versioned lane envelope or
+ *   legacy JSON mint, see lib/lane-codec) and validate the operation
+ *   (metadata schema and size limit, that the signer owns the token of a
+ *   transfer or burn, that a mint's token ID is free) before anything is
+ *   forwarded.
+ * - eth_fillTransaction: Fills in gas, gas price, nonce and chain ID
+ * - eth_getTransactionCount: Next nonce for an account (derived lane node's
+ *   count when reachable, else the bridge's own counter)
+ * - eth_getTransactionByHash, eth_getTransactionReceipt: The bridge's record;
+ *   no receipt until the derived lane node has executed the transaction
+ * - lane_getTransactionStatus(hash): Lifecycle stage of a bridge transaction
+ *   (forwarded, sequenced, executed or failed) and the token it minted,
+ *   transferred or burned
+ *
+ * Submission is idempotent (lib/bridge/submissions): a signed transaction is
+ * identified by the hash of its bytes, so resubmissions return the known hash
+ * without reaching the node again, concurrent duplicates share one forward,
+ * and a node answering "already known" counts as success.
+ */
+
+const lane = getBridgeLane();
+
+// Transactions, nonces and blocks (in-memory or persistent, see lib/bridge/store)
+const store = getBridgeStore();
+
+// Announce a newly forwarded transaction on the event stream (see lib/bridge/events)
+function publishForwarded(hash: string) {
+  publishBridgeEvent({ type: "newPendingTransactions", result: hash });
+  publishBridgeEvent({
+    type: "lane_transactions",
+    result: {
+      hash,
+      stage: "forwarded",
+      blockNumber: null,
+      tokenId: null,
+      error: null,
+    },
+  });
+}
+
+export const transactionMethods = [
+  defineRpcMethod({
+    name: "eth_fillTransaction",
+    kind: "read",
+    params: [transaction("transaction")],
+    // Viem uses this to fill in missing transaction fields
+    handler: (tx) => ({
+      ...tx,
+      gas: tx.gas || toHex(DEFAULT_GAS),
+      gasPrice: tx.gasPrice || toHex(gasPrice()),
+      nonce: tx.nonce || "0x0",
+      chainId: toHex(lane.chainId),
+    }),
+  }),
+
+  defineRpcMethod({
+    name: "eth_getTransactionCount",
+    kind: "read",
+    params: [address("address"), optional(blockRef("block"))],
+    handler: async (account): Promise<Hex> => {
+      const nonce = toHex(await getExpectedNonce(account));
+      logger.debug("rpc result", { address: account, nonce });
+      return nonce;
+    },
+  }),
+
+  defineRpcMethod({
+    name: "eth_sendTransaction",
+    kind: "write",
+    params: [transaction("transaction")],
+    handler: async (tx): Promise<string> => {
+      const data = tx.data || "0x";
+      const fromAddress = tx.from || "0x0";
+      annotateRequest({ sender: fromAddress });
+      const digest = payloadDigest(data);
+      const { operation } = decodeLanePayload(data as Hex);
+
+      // The node signs the transaction, so its hash is only known once the
+      // node answers. Identical requests in flight share one submission.
+      return submitOnce(
+        `send:${fromAddress.toLowerCase()}:${tx.nonce ?? ""}:${digest}`,
+        async () => {
+          await assertOperationExecutable(operation, fromAddress);
+          // The bridge's nonce counter is read and bumped under the sender's
+          // lock, like eth_sendRawTransaction's nonce check
+          return withNonceLock(fromAddress, async () => {
+            consumeSenderLimit(fromAddress);
+            if (operation.op === "mint") await assertMintQuota(fromAddress);
+
+            logger.info("forwarding transaction", {
+              to: tx.to,
+              op: operation.op,
+            });
+
+            // Note: eth_sendTransaction requires the transaction to be signed first
+            // This is typically done by the wallet, so we forward it as-is
+            let hash: string;
+            try {
+              hash = await callBackend<string>("eth_sendTransaction", [tx]);
+            } catch (error) {
+              if (!isKnownTransactionError(error)) throw error;
+              // The node has it from an earlier attempt: answer with the
+              // bridge's record of that attempt
+              const known = (await store.getPendingTransactions()).find(
+                (pending) =>
+                  pending.payloadDigest === digest &&
+                  pending.from.toLowerCase() === fromAddress.toLowerCase()
+              );
+              if (!known) throw error;
+              annotateRequest({ txHash: known.hash });
+              logger.info("backend already has transaction");
+              return known.hash;
+            }
+
+            // A retry the node answered with a hash the bridge already stored
+            if (await store.getTransaction(hash)) {
+              annotateRequest({ txHash: hash });
+              logger.info("transaction already known");
+              return hash;
+            }
+
+            annotateRequest({ txHash: hash });
+            logger.info("transaction forwarded");
+
+            // Store transaction for receipt lookup. The outcome is unknown until
+            // Core Lane sequences it and the derived lane node executes it.
+            const nonce = await store.getNonce(fromAddress);
+            await store.saveTransaction({
+              hash,
+              from: fromAddress,
+              to: tx.to || lane.laneAddress,
+              data,
+              payloadDigest: digest,
+              // The node fills in the nonce when the request leaves it out
+              nonce: tx.nonce ? Number(BigInt(tx.nonce)) : nonce,
+              timestamp: Date.now(),
+              status: "pending",
+              blockNumber: null,
+              blockHash: null,
+              gasUsed: null,
+            });
+
+            publishForwarded(hash);
+            recordForwardedTransaction(operation.op);
+
+            // Increment nonce for sender
+            await store.setNonce(fromAddress, nonce + 1);
+            return hash;
+          });
+        }
+      );
+    },
+  }),
+
+  defineRpcMethod({
+    name: "eth_sendRawTransaction",
+    kind: "write",
+    params: [hexData("rawTransaction")],
+    handler: async (rawTxHex): Promise<string> => {
+      // Rejects malformed, unprotected, unsupported-type and wrong-chain
+      // transactions with their own error codes
+      const parsedTx = await decodeSignedTransaction(rawTxHex, lane.chainId);
+      const fromAddress = parsedTx.from;
+
+      annotateRequest({ sender: fromAddress, txHash: parsedTx.hash });
+      logger.debug("parsed raw transaction", {
+        to: parsedTx.to,
+        nonce: parsedTx.nonce,
+        data: parsedTx.data,
+      });
+
+      if (parsedTx.data === "0x") {
+        throw new InvalidParamsError("Transaction data is required");
+      }
+
+      const { format, operation } = decodeLanePayload(parsedTx.data);
+
+      // The hash is computed from the signed bytes, so retries of the same
+      // transaction (concurrent or not) are recognized before forwarding
+      return submitOnce(parsedTx.hash, async () => {
+        // Resubmitting an identical signed tx returns the existing hash
+        // without forwarding it again or bumping the nonce a second time
+        const existing = await store.getTransaction(parsedTx.hash);
+        if (existing) {
+          logger.info("transaction already known", { status: existing.status });
+          return existing.hash;
+        }
+
+        // Checked against the recovered signer, so transfers and burns can't
+        // be sent on someone else's behalf
+        await assertOperationExecutable(operation, fromAddress);
+
+        // Under the sender's lock from the nonce check until the nonce is
+        // marked used, so two transactions with one nonce can't both pass
+        return withNonceLock(fromAddress, async () => {
+          await assertExpectedNonce(fromAddress, parsedTx.nonce);
+          // Only transactions that would be forwarded count against the sender
+          consumeSenderLimit(fromAddress);
+          if (operation.op === "mint") await assertMintQuota(fromAddress);
+
+          logger.info("forwarding transaction", {
+            to: parsedTx.to,
+            op: operation.op,
+            format,
+          });
+
+          // The Derived Lane node will handle forwarding to Core Lane and execution
+          try {
+            const forwarded = await callBackend<string>(
+              "eth_sendRawTransaction",
+              [rawTxHex]
+            );
+            // The record is keyed by the signed hash, which retries dedupe on
+            if (forwarded.toLowerCase() !== parsedTx.hash.toLowerCase()) {
+              logger.warn("backend answered with a different hash", {
+                backendHash: forwarded,
+              });
+            }
+            logger.info("transaction forwarded");
+          } catch (error) {
+            // Sent before (e.g. by a request that timed out on our side): the
+            // node has it, so record it like a fresh submission
+            if (!isKnownTransactionError(error)) throw error;
+            logger.info("backend already has transaction");
+          }
+
+          // Store transaction for receipt lookup. The outcome is unknown until
+          // Core Lane sequences it and the derived lane node executes it.
+          await store.saveTransaction({
+            hash: parsedTx.hash,
+            from: fromAddress,
+            to: parsedTx.to || lane.laneAddress,
+            data: parsedTx.data,
+            payloadDigest: payloadDigest(parsedTx.data),
+            nonce: parsedTx.nonce,
+            timestamp: Date.now(),
+            status: "pending",
+            blockNumber: null,
+            blockHash: null,
+            gasUsed: null,
+            raw: rawTxHex,
+          });
+
+          await markNonceUsed(fromAddress, parsedTx.nonce);
+          publishForwarded(parsedTx.hash);
+          recordForwardedTransaction(operation.op);
+          return parsedTx.hash;
+        });
+      });
+    },
+  }),
+
+  defineRpcMethod({
+    name: "eth_getTransactionByHash",
+    kind: "read",
+    params: [hash("transactionHash")],
+    handler: async (txHash) => {
+      const tx = await store.getTransaction(txHash);
+      const block = tx?.blockNumber
+        ? await store.getBlock(tx.blockNumber)
+        : null;
+      logger.debug("rpc result", { status: tx ? tx.status : null });
+      return tx
+        ? formatTransaction(
+            tx,
+            block ? block.transactions.indexOf(tx.hash) : null
+          )
+        : null;
+    },
+  }),
+
+  defineRpcMethod({
+    name: "eth_getTransactionReceipt",
+    kind: "read",
+    params: [hash("transactionHash")],
+    handler: async (txHash) => {
+      const tx = await store.getTransaction(txHash);
+
+      if (!tx) {
+        // Not submitted through this bridge: only the node can know it
+        const nodeReceipt = await fetchDerivedLaneReceipt(txHash);
+        logger.debug("rpc result", {
+          txHash,
+          source: nodeReceipt ? "derived lane" : null,
+        });
+        return nodeReceipt;
+      }
+
+      await refreshTransactionStatus(tx);
+
+      if (tx.status === "pending") {
+        // Ethereum semantics: no receipt until the transaction is included
+        logger.debug("rpc result", { txHash, status: "pending" });
+        return null;
+      }
+
+      const block = tx.blockNumber
+        ? await store.getBlock(tx.blockNumber)
+        : null;
+      logger.debug("rpc result", { txHash: tx.hash, status: tx.status });
+      return {
+        transactionHash: tx.hash,
+        blockNumber: tx.blockNumber,
+        blockHash: tx.blockHash,
+        transactionIndex: toHex(
+          Math.max(0, block?.transactions.indexOf(tx.hash) ?? 0)
+        ),
+        from: tx.from,
+        to: tx.to,
+        gasUsed: toHex(gasUsedOf(tx)),
+        cumulativeGasUsed: toHex(gasUsedOf(tx)),
+        effectiveGasPrice: toHex(effectiveGasPrice(tx)),
+        status: tx.status === "success" ? "0x1" : "0x0",
+        logs: tx.logs ?? [],
+        logsBloom: logsBloom(tx.logs ?? []),
+        type: formatTransaction(tx, null).type,
+      };
+    },
+  }),
+
+  defineRpcMethod({
+    name: "lane_getTransactionStatus",
+    kind: "read",
+    params: [hash("transactionHash")],
+    handler: async (txHash): Promise<LaneTransactionStatus | null> => {
+      const tx = await store.getTransaction(txHash);
+      if (!tx) {
+        logger.debug("rpc result", { txHash, stage: null });
+        return null;
+      }
+
+      await refreshTransactionStatus(tx);
+      const { status } = await resolveLaneTransaction(tx);
+      logger.debug("rpc result", { txHash, stage: status.stage });
+      return status;
+    },
+  }),
+];
@@ -0,0 +1,248 @@
+import { getBridgeStore } from "./store";
+
+/**
+ * Prometheus metrics of the RPC bridge
+ *
+ * Counters and histograms are kept in process and rendered in the Prometheus
+ * text format by GET /api/metrics; the transaction gauges are read from the
+ * bridge store at scrape time, so they agree with what the RPC methods
+ * report. All names start with `nft_lane_`:
+ *
+ * - rpc_requests_total{method,outcome}, rpc_request_duration_seconds{method}
+ * - rpc_errors_total{code}
+ * - backend_request_duration_seconds{method}, backend_failures_total{backend}
+ * - transactions_forwarded_total{op}, mints_last_minute
+ * - transactions{status} (pending, success, failed)
+ * - nonce_rejections_total{reason}, rate_limited_total{limit}
+ *
+ * Counters restart from zero with the process; Prometheus' rate() handles that.
+ */
+
+type Labels = Record<string, string>;
+
+interface Histogram {
+  buckets: number[];
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+interface MetricsState {
+  counters: Map<string, Map<string, number>>;
+  histograms: Map<string, Map<string, Histogram>>;
+  // Forwarding times of recent mints, for mints_last_minute
+  recentMints: number[];
+}
+
+// Kept on globalThis so every route bundle records into the same metrics
+const globalMetrics = globalThis as typeof globalThis & {
+  __bridgeMetrics?: MetricsState;
+};
+
+function getState(): MetricsState {
+  if (!globalMetrics.__bridgeMetrics) {
+    globalMetrics.__bridgeMetrics = {
+      counters: new Map(),
+      histograms: new Map(),
+      recentMints: [],
+    };
+  }
+  return globalMetrics.__bridgeMetrics;
+}
+
+const PREFIX = "nft_lane_";
+const MINUTE = 60_000;
+
+// Seconds; bridge reads take milliseconds, forwards wait on the node
+const RPC_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const BACKEND_BUCKETS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const HELP: Record<string, string> = {
+  rpc_requests_total: "JSON-RPC requests handled, by method and outcome",
+  rpc_request_duration_seconds: "Time to handle a JSON-RPC request",
+  rpc_errors_total: "JSON-RPC error responses, by error code",
+  backend_request_duration_seconds: "Duration of calls to derived lane nodes",
+  backend_failures_total: "Calls to a derived lane node that got no answer",
+  transactions_forwarded_total: "Transactions forwarded to the derived lane",
+  mints_last_minute: "Mints forwarded in the last minute",
+  transactions: "Transactions recorded by the bridge, by status",
+  nonce_rejections_total: "Transactions rejected for their nonce",
+  rate_limited_total: "Requests refused by a rate limit or quota",
+};
+
+const TYPES: Record<string, "counter" | "gauge" | "histogram"> = {
+  rpc_requests_total: "counter",
+  rpc_request_duration_seconds: "histogram",
+  rpc_errors_total: "counter",
+  backend_request_duration_seconds: "histogram",
+  backend_failures_total: "counter",
+  transactions_forwarded_total: "counter",
+  mints_last_minute: "gauge",
+  transactions: "gauge",
+  nonce_rejections_total: "counter",
+  rate_limited_total: "counter",
+};
+
+// Series are keyed by their rendered label set, e.g. {method="eth_call"}
+function labelKey(labels: Labels) {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function increment(name: string, labels: Labels, by = 1) {
+  const counters = getState().counters;
+  const series = counters.get(name) ?? new Map<string, number>();
+  const key = labelKey(labels);
+  series.set(key, (series.get(key) ?? 0) + by);
+  counters.set(name, series);
+}
+
+function observe(
+  name: string,
+  labels: Labels,
+  buckets: number[],
+  seconds: number
+) {
+  const histograms = getState().histograms;
+  const series = histograms.get(name) ?? new Map<string, Histogram>();
+  const key = labelKey(labels);
+  const histogram = series.get(key) ?? {
+    buckets,
+    counts: buckets.map(() => 0),
+    sum: 0,
+    count: 0,
+  };
+  buckets.forEach((bound, i) => {
+    if (seconds <= bound) histogram.counts[i] += 1;
+  });
+  histogram.sum += seconds;
+  histogram.count += 1;
+  series.set(key, histogram);
+  histograms.set(name, series);
+}
+
+/** Record a handled JSON-RPC request and, if it failed, its error code */
+export function recordRpcRequest(
+  method: string,
+  latencyMs: number,
+  errorCode?: number
+) {
+  const outcome = errorCode === undefined ? "ok" : "error";
+  increment("rpc_requests_total", { method, outcome });
+  observe(
+    "rpc_request_duration_seconds",
+    { method },
+    RPC_BUCKETS,
+    latencyMs / 1000
+  );
+  if (errorCode !== undefined) {
+    increment("rpc_errors_total", { code: String(errorCode) });
+  }
+}
+
+/** Record a call to a derived lane node; `failed` when it got no answer */
+export function recordBackendCall(
+  backend: string,
+  method: string,
+  latencyMs: number,
+  failed: boolean
+) {
+  observe(
+    "backend_request_duration_seconds",
+    { method },
+    BACKEND_BUCKETS,
+    latencyMs / 1000
+  );
+  if (failed) increment("backend_failures_total", { backend });
+}
+
+// Drop mints older than a minute; times are in order, so from the front
+function pruneRecentMints(state: MetricsState, now: number) {
+  const cutoff = now - MINUTE;
+  const fresh = state.recentMints.findIndex((at) => at > cutoff);
+  state.recentMints.splice(0, fresh < 0 ? state.recentMints.length : fresh);
+}
+
+/** Record a transaction forwarded to the derived lane */
+export function recordForwardedTransaction(op: string) {
+  increment("transactions_forwarded_total", { op });
+  if (op !== "mint") return;
+  // Pruned here too, so the list stays a minute long without scrapes
+  const state = getState();
+  const now = Date.now();
+  pruneRecentMints(state, now);
+  state.recentMints.push(now);
+}
+
+export function recordNonceRejection(reason: "too_low" | "too_high") {
+  increment("nonce_rejections_total", { reason });
+}
+
+export function recordRateLimit(
+  limit: "read" | "write" | "sender" | "daily_mints"
+) {
+  increment("rate_limited_total", { limit });
+}
+
+function header(lines: string[], name: string) {
+  lines.push(`# HELP ${PREFIX}${name} ${HELP[name]}`);
+  lines.push(`# TYPE ${PREFIX}${name} ${TYPES[name]}`);
+}
+
+// Adds `le` to a rendered label set: {method="x"} -> {method="x",le="0.1"}
+function withBound(key: string, bound: string) {
+  const le = `le="${bound}"`;
+  return key ? `${key.slice(0, -1)},${le}}` : `{${le}}`;
+}
+
+/** All metrics in the Prometheus text exposition format (version 0.0.4) */
+export async function renderMetrics(): Promise<string> {
+  const state = getState();
+  const lines: string[] = [];
+
+  pruneRecentMints(state, Date.now());
+
+  const store = getBridgeStore();
+  const [total, pending, failed] = await Promise.all([
+    store.countTransactions(),
+    store.countTransactions("pending"),
+    store.countTransactions("failed"),
+  ]);
+
+  for (const name of Object.keys(TYPES)) {
+    header(lines, name);
+    const metric = `${PREFIX}${name}`;
+
+    if (name === "mints_last_minute") {
+      lines.push(`${metric} ${state.recentMints.length}`);
+    } else if (name === "transactions") {
+      lines.push(`${metric}{status="pending"} ${pending}`);
+      lines.push(`${metric}{status="success"} ${total - pending - failed}`);
+      lines.push(`${metric}{status="failed"} ${failed}`);
+    } else if (TYPES[name] === "histogram") {
+      for (const [key, histogram] of state.histograms.get(name) ?? []) {
+        histogram.buckets.forEach((bound, i) => {
+          lines.push(
+            `${metric}_bucket${withBound(key, String(bound))} ${
+              histogram.counts[i]
+            }`
+          );
+        });
+        lines.push(
+          `${metric}_bucket${withBound(key, "+Inf")} ${histogram.count}`
+        );
+        lines.push(`${metric}_sum${key} ${histogram.sum}`);
+        lines.push(`${metric}_count${key} ${histogram.count}`);
+      }
+    } else {
+      for (const [key, value] of state.counters.get(name) ?? []) {
+        lines.push(`${metric}${key} ${value}`);
+      }
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
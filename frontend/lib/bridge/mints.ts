@@ -0,0 +1,96 @@
+import crypto from "crypto";
+import { LaneOperationRecord, NftToken } from "@/lib/nft-types";
+import { listOperations } from "./lane-state";
+import { getBridgeStore, StoredTransaction } from "./store";
+
+/**
+ * Linking lane tokens to the bridge transactions that minted, transferred or
+ * burned them
+ *
+ * The container logs every operation it executes with the token it touched,
+ * the user it executed it for and the sha256 of the calldata
+ * (GET /operations); the bridge stores the same digest and the sender's nonce
+ * with each transaction. The log is append-only, so a burn does not shift the
+ * pairing. Equal payloads are paired per sender in nonce order: the n-th
+ * executed transaction of a sender with a digest produced the n-th logged
+ * operation of that sender with it. Other senders' identical payloads (e.g.
+ * auto-id mints with default metadata) do not take part.
+ */
+
+export function payloadDigest(data: string) {
+  return crypto
+    .createHash("sha256")
+    .update(Buffer.from(data.replace(/^0x/, ""), "hex"))
+    .digest("hex");
+}
+
+function sameAddress(a: string | null, b: string) {
+  return (a ?? "").toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * A sender's transactions with a digest that have not failed, in the order
+ * the node executes them (legacy records without a nonce first)
+ */
+async function senderTransactions(sender: string, digest: string) {
+  const txs = await getBridgeStore().getTransactionsByPayloadDigest(digest);
+  return txs
+    .filter((tx) => tx.status !== "failed" && sameAddress(tx.from, sender))
+    .sort((a, b) => (a.nonce ?? -1) - (b.nonce ?? -1));
+}
+
+async function executedOperations(digest: string, sender?: string) {
+  return (await listOperations({ digest, sender, limit: 100 })).operations;
+}
+
+export async function findMintTransaction(
+  token: NftToken
+): Promise<StoredTransaction | null> {
+  if (!token.payload_digest) return null;
+
+  // The latest mint of the id: it may have been burned and minted again
+  const log = await executedOperations(token.payload_digest);
+  const mint = log.findLast(
+    (entry) => entry.op === "mint" && entry.token_id === token.token_id
+  );
+  if (!mint?.sender) return null;
+
+  const sender = mint.sender;
+  const index = log
+    .filter((entry) => sameAddress(entry.sender, sender))
+    .indexOf(mint);
+  const txs = await senderTransactions(sender, token.payload_digest);
+  return txs[index] ?? null;
+}
+
+/**
+ * Pending transactions of the same sender and calldata that execute before
+ * `tx`. They take log entries ahead of it, so settle them first.
+ */
+export async function earlierPendingTransactions(
+  tx: StoredTransaction
+): Promise<StoredTransaction[]> {
+  if (!tx.payloadDigest) return [];
+
+  const txs = await senderTransactions(tx.from, tx.payloadDigest);
+  const index = txs.findIndex((t) => t.hash === tx.hash);
+  return txs.slice(0, Math.max(index, 0)).filter((t) => t.status === "pending");
+}
+
+/**
+ * The logged operation a transaction executed: the token it minted
+ * (including ids the container generated itself), transferred or burned.
+ * Null until the container has executed it, and for failed transactions.
+ */
+export async function findExecutedOperation(
+  tx: StoredTransaction
+): Promise<LaneOperationRecord | null> {
+  if (tx.status === "failed" || !tx.payloadDigest) return null;
+
+  const txs = await senderTransactions(tx.from, tx.payloadDigest);
+  const index = txs.findIndex((t) => t.hash === tx.hash);
+  if (index < 0) return null;
+
+  const log = await executedOperations(tx.payloadDigest, tx.from);
+  return log[index] ?? null;
+}
@@ -0,0 +1,88 @@
+import { callBackend } from "./backend";
+import { JSON_RPC_ERRORS, RpcError } from "./errors";
+import { recordNonceRejection } from "./metrics";
+import { getBridgeStore } from "./store";
+
+/**
+ * Nonce bookkeeping for the bridge
+ *
+ * The derived lane node is the authority on account nonces. The bridge's own
+ * counter (next expected nonce per sender) covers transactions it has
+ * forwarded that the node may not report yet, and is the only source when the
+ * node is unreachable.
+ */
+
+export async function getExpectedNonce(address: string): Promise<number> {
+  const local = await getBridgeStore().getNonce(address);
+
+  try {
+    const remote = await callBackend<string>("eth_getTransactionCount", [
+      address,
+      "pending",
+    ]);
+    return Math.max(local, Number(BigInt(remote)));
+  } catch {
+    return local;
+  }
+}
+
+/**
+ * Reject a transaction whose nonce is not the next one for its sender. Nonces
+ * that were already used (replays) are too low; gaps are reported instead of
+ * being queued, so the wallet can resubmit the missing transactions first.
+ */
+export async function assertExpectedNonce(address: string, nonce: number) {
+  const expected = await getExpectedNonce(address);
+
+  if (nonce < expected) {
+    recordNonceRejection("too_low");
+    throw new RpcError(
+      JSON_RPC_ERRORS.NONCE_TOO_LOW,
+      `nonce too low: next nonce ${expected}, tx nonce ${nonce}`,
+      { expected, actual: nonce }
+    );
+  }
+  if (nonce > expected) {
+    recordNonceRejection("too_high");
+    throw new RpcError(
+      JSON_RPC_ERRORS.NONCE_TOO_HIGH,
+      `nonce too high: next nonce ${expected}, tx nonce ${nonce} leaves a gap`,
+      { expected, actual: nonce }
+    );
+  }
+}
+
+/** Record that `nonce` has been used by `address` */
+export async function markNonceUsed(address: string, nonce: number) {
+  const store = getBridgeStore();
+  const current = await store.getNonce(address);
+  await store.setNonce(address, Math.max(current, nonce + 1));
+}
+
+// Kept on globalThis so every route bundle shares the same locks
+const globalNonces = globalThis as typeof globalThis & {
+  __bridgeNonceLocks?: Map<string, Promise<unknown>>;
+};
+
+/**
+ * Run `fn` with exclusive access to `address`'s nonce, so checking that a
+ * transaction's nonce is next and marking it used can't interleave with
+ * another transaction of the same sender. Senders don't wait on each other.
+ */
+export function withNonceLock<T>(
+  address: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const locks = (globalNonces.__bridgeNonceLocks ??= new Map());
+  const key = address.toLowerCase();
+  const previous = locks.get(key) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(fn);
+  locks.set(key, next);
+  // Forget the sender once nothing is queued behind this call
+  next
+    .catch(() => undefined)
+    .finally(() => {
+      if (locks.get(key) === next) locks.delete(key);
+    });
+  return next;
+}
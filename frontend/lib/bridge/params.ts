@@ -0,0 +1,284 @@
+import { Address, Hex, isAddress, isHex } from "viem";
+import { JSON_RPC_ERRORS, RpcError } from "./errors";
+import type { LogQuery } from "./filters";
+
+/**
+ * Params schemas for JSON-RPC methods
+ *
+ * A method declares its positional params as a list of Param validators (see
+ * lib/bridge/registry). Each one checks the value at its position and returns
+ * it typed, or throws an INVALID_PARAMS error naming the param:
+ *
+ *   { code: -32602, message: "address must be an address",
+ *     data: { param: "address", index: 0 } }
+ *
+ * `optional()` lets a param be left out (or null), with a default.
+ */
+
+export interface Param<T> {
+  name: string;
+  parse(value: unknown, index: number): T;
+}
+
+export class InvalidParamsError extends RpcError {
+  constructor(message: string, data?: { param: string; index: number }) {
+    super(JSON_RPC_ERRORS.INVALID_PARAMS, message, data);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A required param that is valid when `check` passes. `expected` completes
+ * the error message "<name> must be …".
+ */
+export function param<T>(
+  name: string,
+  expected: string,
+  check: (value: unknown) => boolean
+): Param<T> {
+  return {
+    name,
+    parse(value, index) {
+      if (value === undefined) {
+        throw new InvalidParamsError(`${name} is required`, {
+          param: name,
+          index,
+        });
+      }
+      if (!check(value)) {
+        throw new InvalidParamsError(`${name} must be ${expected}`, {
+          param: name,
+          index,
+        });
+      }
+      return value as T;
+    },
+  };
+}
+
+/** Let `inner` be left out or null, in which case it is `fallback` */
+export function optional<T>(inner: Param<T>): Param<T | undefined>;
+export function optional<T>(inner: Param<T>, fallback: T): Param<T>;
+export function optional<T>(inner: Param<T>, fallback?: T) {
+  return {
+    name: inner.name,
+    parse: (value: unknown, index: number) =>
+      value === undefined || value === null
+        ? fallback
+        : inner.parse(value, index),
+  };
+}
+
+const BLOCK_TAGS = ["latest", "earliest", "pending", "safe", "finalized"];
+
+// Leading zeros are tolerated; some wallets send "0x00"
+function isQuantity(value: unknown) {
+  return typeof value === "string" && /^0x[0-9a-fA-F]+$/.test(value);
+}
+
+function isBlockTag(value: unknown) {
+  return (
+    (typeof value === "string" && BLOCK_TAGS.includes(value)) ||
+    isQuantity(value)
+  );
+}
+
+// Any letter case, as nodes accept; a checksum is not required
+function isAnyAddress(value: unknown) {
+  return typeof value === "string" && isAddress(value, { strict: false });
+}
+
+export const address = (name: string) =>
+  param<Address>(name, "an address", isAnyAddress);
+
+export const hexData = (name: string) =>
+  param<Hex>(
+    name,
+    "hex data",
+    (value) => typeof value === "string" && isHex(value)
+  );
+
+export const quantity = (name: string) =>
+  param<Hex>(name, "a hex quantity", isQuantity);
+
+// A count as a JSON number or a hex quantity, e.g. eth_feeHistory's blockCount
+export const count = (name: string) =>
+  param<number | Hex>(
+    name,
+    "a positive integer or hex quantity",
+    (value) =>
+      (typeof value === "number" && Number.isInteger(value) && value >= 1) ||
+      (isQuantity(value) && BigInt(value as string) > 0n)
+  );
+
+export const percentiles = (name: string) =>
+  param<number[]>(
+    name,
+    "increasing numbers between 0 and 100",
+    (value) =>
+      Array.isArray(value) &&
+      value.every(
+        (p, i) =>
+          typeof p === "number" &&
+          p >= 0 &&
+          p <= 100 &&
+          (i === 0 || p >= value[i - 1])
+      )
+  );
+
+export const blockTag = (name: string) =>
+  param<string>(
+    name,
+    `a block number or one of ${BLOCK_TAGS.join(", ")}`,
+    isBlockTag
+  );
+
+/**
+ * A block number, tag or EIP-1898 `{ blockHash }` / `{ blockNumber }`. Only
+ * for block params the bridge ignores: it answers from its current state.
+ */
+export const blockRef = (name: string) =>
+  param<unknown>(
+    name,
+    "a block number, tag, or { blockHash } / { blockNumber }",
+    (value) =>
+      isBlockTag(value) ||
+      (isRecord(value) &&
+        (typeof value.blockHash === "string" || isBlockTag(value.blockNumber)))
+  );
+
+const isHash = (value: unknown) =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{64}$/.test(value);
+
+export const hash = (name: string) =>
+  param<Hex>(name, "a 32-byte hex hash", isHash);
+
+export const boolean = (name: string) =>
+  param<boolean>(name, "a boolean", (value) => typeof value === "boolean");
+
+export const string = (name: string) =>
+  param<string>(
+    name,
+    "a non-empty string",
+    (value) => typeof value === "string" && value.length > 0
+  );
+
+export const object = <T extends object = Record<string, unknown>>(
+  name: string
+) => param<T>(name, "an object", isRecord);
+
+// Passed through as is, for helpers that validate the value themselves
+export const unchecked = (name: string) =>
+  param<unknown>(name, "present", () => true);
+
+/** Transaction or call object of eth_sendTransaction, eth_call and others */
+export interface TransactionParam {
+  from?: string;
+  to?: string | null;
+  data?: string;
+  input?: string;
+  gas?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  nonce?: string;
+  value?: string;
+}
+
+const TRANSACTION_QUANTITIES = [
+  "gas",
+  "gasPrice",
+  "maxFeePerGas",
+  "maxPriorityFeePerGas",
+  "nonce",
+  "value",
+];
+
+export const transaction = (name: string) =>
+  param<TransactionParam>(
+    name,
+    "a transaction object (addresses, hex data and hex quantities)",
+    (value) =>
+      isRecord(value) &&
+      (value.from === undefined || isAnyAddress(value.from)) &&
+      (value.to === undefined || value.to === null || isAnyAddress(value.to)) &&
+      [value.data, value.input].every(
+        (data) =>
+          data === undefined || (typeof data === "string" && isHex(data))
+      ) &&
+      TRANSACTION_QUANTITIES.every(
+        (field) => value[field] === undefined || isQuantity(value[field])
+      )
+  );
+
+/**
+ * Log filter of eth_getLogs, eth_newFilter and the event stream's `logs`:
+ * { address, topics, fromBlock, toBlock } or { address, topics, blockHash }.
+ * Errors name the offending field, e.g. "filter.topics[1] must be …".
+ */
+export function logFilter(name: string): Param<LogQuery> {
+  return {
+    name,
+    parse(value, index) {
+      const fail = (message: string) => {
+        throw new InvalidParamsError(`${name}${message}`, {
+          param: name,
+          index,
+        });
+      };
+
+      if (!isRecord(value)) fail(" must be an object");
+      const filter = value as Record<string, unknown>;
+      const { address, topics, fromBlock, toBlock, blockHash } = filter;
+
+      if (
+        address !== undefined &&
+        address !== null &&
+        !isAnyAddress(address) &&
+        !(Array.isArray(address) && address.every(isAnyAddress))
+      ) {
+        fail(".address must be an address or a list of addresses");
+      }
+      if (topics !== undefined && topics !== null) {
+        if (!Array.isArray(topics) || topics.length > 4) {
+          fail(".topics must be an array of up to 4 entries");
+        }
+        (topics as unknown[]).forEach((topic, i) => {
+          if (
+            topic !== null &&
+            !isHash(topic) &&
+            !(Array.isArray(topic) && topic.every(isHash))
+          ) {
+            fail(`.topics[${i}] must be null, a topic hash or a list of them`);
+          }
+        });
+      }
+      for (const [field, tag] of Object.entries({ fromBlock, toBlock })) {
+        if (tag !== undefined && tag !== null && !isBlockTag(tag)) {
+          fail(
+            `.${field} must be a block number or one of ${BLOCK_TAGS.join(
+              ", "
+            )}`
+          );
+        }
+      }
+      if (blockHash !== undefined && blockHash !== null) {
+        if (!isHash(blockHash)) fail(".blockHash must be a 32-byte hex hash");
+        if ((fromBlock ?? toBlock ?? null) !== null) {
+          fail(".blockHash cannot be combined with fromBlock/toBlock");
+        }
+      }
+
+      return {
+        address: address ?? undefined,
+        topics: topics ?? undefined,
+        fromBlock: fromBlock ?? undefined,
+        toBlock: toBlock ?? undefined,
+        blockHash: blockHash ?? undefined,
+      } as LogQuery;
+    },
+  };
+}
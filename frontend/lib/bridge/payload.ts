@@ -0,0 +1,120 @@
+import { Hex, size } from "viem";
+import {
+  MetadataValidationError,
+  validatePayloadSize,
+  ValidationIssue,
+} from "@/lib/metadata";
+import {
+  decodeLaneCalldata,
+  DecodedLaneCalldata,
+  LaneCodecError,
+  LaneOperation,
+  validateLaneOperation,
+} from "@/lib/lane-codec";
+import { JSON_RPC_ERRORS, RpcError } from "./errors";
+import { getToken } from "./lane-state";
+import { getBridgeStore } from "./store";
+
+function invalidPayload(issues: ValidationIssue[]) {
+  const error = new MetadataValidationError(issues);
+  return new RpcError(
+    JSON_RPC_ERRORS.INVALID_PARAMS,
+    `Invalid lane payload: ${error.message}`,
+    { issues }
+  );
+}
+
+/**
+ * Decode calldata (versioned envelope or legacy JSON mint) and reject anything
+ * the lane would refuse before it is forwarded, so malformed or oversized
+ * operations are never sequenced. Runs the same schema checks as lane-client;
+ * field-level issues are returned in the error's `data`.
+ */
+export function decodeLanePayload(data: Hex): DecodedLaneCalldata {
+  const sizeIssues = validatePayloadSize(size(data));
+  if (sizeIssues.length > 0) throw invalidPayload(sizeIssues);
+
+  let decoded: DecodedLaneCalldata;
+  try {
+    decoded = decodeLaneCalldata(data);
+  } catch (error) {
+    if (!(error instanceof LaneCodecError)) throw error;
+    throw new RpcError(JSON_RPC_ERRORS.INVALID_PARAMS, error.message);
+  }
+
+  const issues = validateLaneOperation(decoded.operation);
+  if (issues.length > 0) throw invalidPayload(issues);
+
+  return decoded;
+}
+
+/**
+ * Transfers and burns may only be sent by the token's current owner (compared
+ * case-insensitively, as the container does). Mints need no authorization.
+ */
+export async function assertOperationAuthorized(
+  operation: LaneOperation,
+  sender: string
+) {
+  if (operation.op === "mint") return;
+
+  const token = await getToken(operation.token_id);
+  if (!token) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.INVALID_PARAMS,
+      `Token ${operation.token_id} has not been minted`
+    );
+  }
+
+  if (token.owner.toLowerCase() !== sender.toLowerCase()) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.NOT_TOKEN_OWNER,
+      `${sender} does not own token ${operation.token_id}`,
+      { tokenId: operation.token_id, owner: token.owner, sender }
+    );
+  }
+}
+
+/**
+ * A mint with an explicit token_id must not reuse an ID that is in lane state
+ * or claimed by a mint the bridge has forwarded but not seen executed. The
+ * container would skip it while the receipt still reports success.
+ */
+export async function assertMintAvailable(operation: LaneOperation) {
+  if (operation.op !== "mint" || !operation.token_id) return;
+  const tokenId = operation.token_id;
+
+  if (await getToken(tokenId)) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.TOKEN_ALREADY_MINTED,
+      `Token ${tokenId} already exists`,
+      { tokenId }
+    );
+  }
+
+  const pending = await getBridgeStore().getPendingTransactions();
+  const claimedBy = pending.find((tx) => {
+    try {
+      const { operation: other } = decodeLaneCalldata(tx.data as Hex);
+      return other.op === "mint" && other.token_id === tokenId;
+    } catch {
+      return false;
+    }
+  });
+  if (claimedBy) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.TOKEN_ALREADY_MINTED,
+      `Token ${tokenId} is already being minted by ${claimedBy.hash}`,
+      { tokenId, transaction: claimedBy.hash }
+    );
+  }
+}
+
+/** Everything lane state decides about an operation sent by `sender` */
+export async function assertOperationExecutable(
+  operation: LaneOperation,
+  sender: string
+) {
+  await assertMintAvailable(operation);
+  await assertOperationAuthorized(operation, sender);
+}
@@ -0,0 +1,198 @@
+import { toHex } from "viem";
+import {
+  LaneOperationRecord,
+  LaneTokenEvent,
+  LaneTransactionStatus,
+} from "@/lib/nft-types";
+import { callBackend } from "./backend";
+import { appendBlock, withChainLock } from "./blocks";
+import { publishBridgeEvent } from "./events";
+import { logger } from "./logger";
+import { transferLog } from "./logs";
+import { earlierPendingTransactions, findExecutedOperation } from "./mints";
+import { getBridgeStore, StoredBlock, StoredTransaction } from "./store";
+
+/**
+ * Transaction outcomes for the RPC bridge
+ *
+ * A forwarded transaction stays pending until the derived lane node has a
+ * receipt for it and, when it succeeded, until the container's operation log
+ * shows the token change it made (see lib/bridge/mints), so its Transfer log
+ * is sealed from the executed operation rather than from a guess. Each outcome seals a block on the bridge's chain (see
+ * lib/bridge/blocks); new blocks and stage changes are published on the event
+ * bus as they are discovered.
+ */
+
+// Receipt fields we take from the derived lane node
+export interface DerivedLaneReceipt {
+  blockNumber: string;
+  blockHash: string;
+  status: string;
+  gasUsed?: string;
+}
+
+function laneStatus(
+  tx: StoredTransaction,
+  tokenId: string | null
+): LaneTransactionStatus {
+  return {
+    hash: tx.hash,
+    stage:
+      tx.status === "failed"
+        ? "failed"
+        : tokenId
+        ? "executed"
+        : tx.blockNumber
+        ? "sequenced"
+        : "forwarded",
+    blockNumber: tx.blockNumber,
+    tokenId,
+    error:
+      tx.status === "failed"
+        ? `Execution failed in block ${tx.blockNumber}`
+        : null,
+  };
+}
+
+/**
+ * Ask the derived lane node for the receipt of a transaction. Returns null
+ * while Core Lane has not sequenced it or the container has not executed it.
+ */
+export async function fetchDerivedLaneReceipt(
+  txHash: string
+): Promise<DerivedLaneReceipt | null> {
+  const receipt = await callBackend<DerivedLaneReceipt | null>(
+    "eth_getTransactionReceipt",
+    [txHash]
+  );
+  return receipt ?? null;
+}
+
+// Token change of a transaction, as the container logged it
+function tokenEvent(
+  tx: StoredTransaction,
+  executed: LaneOperationRecord
+): LaneTokenEvent {
+  return {
+    op: executed.op,
+    tokenId: executed.token_id,
+    hash: tx.hash,
+    from: executed.from,
+    to: executed.to,
+    blockNumber: tx.blockNumber,
+  };
+}
+
+/**
+ * Seal a transaction the derived lane node has a receipt for into the next
+ * bridge block, with the Transfer log of the operation it executed. Null when
+ * a concurrent refresh sealed it first.
+ */
+async function sealTransaction(
+  tx: StoredTransaction,
+  receipt: DerivedLaneReceipt,
+  executed: LaneOperationRecord | null
+): Promise<StoredBlock | null> {
+  const store = getBridgeStore();
+  return withChainLock(async () => {
+    // A concurrent refresh may have sealed it already
+    const current = await store.getTransaction(tx.hash);
+    if (current && current.status !== "pending") {
+      Object.assign(tx, current);
+      return null;
+    }
+
+    const sealed = await appendBlock([tx.hash], receipt.blockNumber);
+    tx.status = executed ? "success" : "failed";
+    tx.blockNumber = sealed.number;
+    tx.blockHash = sealed.hash;
+    tx.gasUsed = receipt.gasUsed || null;
+    tx.logs = executed
+      ? [
+          transferLog(tokenEvent(tx, executed), tx.to, {
+            blockHash: tx.blockHash,
+            transactionIndex: sealed.transactions.indexOf(tx.hash),
+            logIndex: 0,
+          }),
+        ]
+      : [];
+    await store.saveTransaction(tx);
+    return sealed;
+  });
+}
+
+/**
+ * Resolve a pending transaction against the derived lane node. Lookup
+ * failures, and successful transactions the container has not logged yet,
+ * stay pending so the next receipt request tries again.
+ */
+export async function refreshTransactionStatus(tx: StoredTransaction) {
+  if (tx.status !== "pending") return;
+
+  let receipt: DerivedLaneReceipt | null;
+  let block: StoredBlock | null;
+  try {
+    receipt = await fetchDerivedLaneReceipt(tx.hash);
+    if (!receipt) return;
+
+    let executed: LaneOperationRecord | null = null;
+    if (receipt.status === "0x1") {
+      for (const earlier of await earlierPendingTransactions(tx)) {
+        await refreshTransactionStatus(earlier);
+      }
+      executed = await findExecutedOperation(tx);
+      if (!executed) {
+        logger.debug("waiting for the executed operation", {
+          txHash: tx.hash,
+        });
+        return;
+      }
+    }
+    block = await sealTransaction(tx, receipt, executed);
+  } catch (error) {
+    logger.warn("receipt lookup failed", { txHash: tx.hash, error });
+    return;
+  }
+  if (!block) return;
+  // Outside the try: the block is sealed, so its events are not part of the
+  // lookup and must not be reported as its failure
+  logger.info("transaction sealed", {
+    txHash: tx.hash,
+    sender: tx.from,
+    status: tx.status,
+    blockNumber: block.number,
+    derivedBlockNumber: receipt.blockNumber,
+  });
+  publishBridgeEvent({
+    type: "newHeads",
+    result: {
+      number: block.number,
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: toHex(Math.floor(block.timestamp / 1000)),
+    },
+  });
+  for (const log of tx.logs ?? []) {
+    publishBridgeEvent({ type: "logs", result: log });
+  }
+  // Executed is published by the watcher once lane state shows the change
+  publishBridgeEvent({
+    type: "lane_transactions",
+    result: laneStatus(tx, null),
+  });
+}
+
+/**
+ * Lifecycle stage of a bridge transaction and, once executed, the token
+ * change it made. Call refreshTransactionStatus first for a fresh outcome.
+ */
+export async function resolveLaneTransaction(tx: StoredTransaction): Promise<{
+  status: LaneTransactionStatus;
+  token: LaneTokenEvent | null;
+}> {
+  const executed =
+    tx.status === "success" ? await findExecutedOperation(tx) : null;
+  const token = executed && tokenEvent(tx, executed);
+
+  return { status: laneStatus(tx, token?.tokenId ?? null), token };
+}
@@ -0,0 +1,105 @@
+import { JSON_RPC_ERRORS, RpcError } from "./errors";
+import { InvalidParamsError, Param } from "./params";
+
+/**
+ * Registry of the JSON-RPC methods the bridge serves
+ *
+ * Each method declares its params schema (lib/bridge/params), its result
+ * type, and whether it reads or writes (writes draw from the smaller rate
+ * limit budget, see lib/bridge/limits). The dispatcher looks methods up here
+ * and validates params before the handler runs, so handlers get typed
+ * arguments and invalid params always fail with INVALID_PARAMS.
+ *
+ * The bridge's own methods live in lib/bridge/methods. A derived lane built
+ * on this bridge lists its methods in lib/bridge/methods/lane.ts, which is
+ * registered with them:
+ *
+ *   export const laneMethods = [
+ *     defineRpcMethod({
+ *       name: "lane_getListing",
+ *       kind: "read",
+ *       params: [string("tokenId")],
+ *       handler: (tokenId) => getListing(tokenId),
+ *     }),
+ *   ];
+ *
+ * registerRpcMethod can also be called from any other server module. The
+ * registry lives on globalThis and registering a name again replaces the
+ * method, so dev hot reloads pick up edited handlers.
+ */
+
+export type MethodKind = "read" | "write";
+
+// Handler argument types of a params schema, e.g. [Address, string | undefined]
+export type ParamsOf<S extends readonly Param<unknown>[]> = {
+  -readonly [K in keyof S]: S[K] extends Param<infer T> ? T : never;
+};
+
+export interface RpcMethod<
+  S extends readonly Param<unknown>[] = readonly Param<unknown>[],
+  R = unknown
+> {
+  name: string;
+  kind: MethodKind;
+  params: S;
+  handler(...params: ParamsOf<S>): R | Promise<R>;
+}
+
+/** Identity function that infers the handler's argument types from `params` */
+export function defineRpcMethod<const S extends readonly Param<unknown>[], R>(
+  method: RpcMethod<S, R>
+): RpcMethod<S, R> {
+  return method;
+}
+
+// Kept on globalThis so every route bundle and dev hot reload share one registry
+const globalMethods = globalThis as typeof globalThis & {
+  __bridgeMethods?: Map<string, RpcMethod>;
+};
+
+function getMethods() {
+  if (!globalMethods.__bridgeMethods) {
+    globalMethods.__bridgeMethods = new Map();
+  }
+  return globalMethods.__bridgeMethods;
+}
+
+/** Serve `method` under its name, replacing any method registered before */
+export function registerRpcMethod(method: RpcMethod) {
+  getMethods().set(method.name, method);
+}
+
+export function getRpcMethod(name: string): RpcMethod | undefined {
+  return getMethods().get(name);
+}
+
+export function listRpcMethods(): RpcMethod[] {
+  return [...getMethods().values()];
+}
+
+/**
+ * Validate `params` against the method's schema and run its handler. Throws
+ * METHOD_NOT_FOUND for unknown methods and INVALID_PARAMS for bad params.
+ */
+export async function callRpcMethod(
+  name: string,
+  params: unknown[] = []
+): Promise<unknown> {
+  const method = getRpcMethod(name);
+  if (!method) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.METHOD_NOT_FOUND,
+      `Method ${name} not supported`
+    );
+  }
+
+  if (params.length > method.params.length) {
+    throw new InvalidParamsError(
+      `too many params: ${name} takes at most ${method.params.length}`
+    );
+  }
+  const args = method.params.map((param, index) =>
+    param.parse(params[index], index)
+  );
+  return method.handler(...args);
+}
@@ -0,0 +1,88 @@
+import { encodeErrorResult, Hex, hexToBytes, isHex, toHex } from "viem";
+import { LaneOperation } from "@/lib/lane-codec";
+import { JSON_RPC_ERRORS, RpcError } from "./errors";
+import { assertOperationExecutable, decodeLanePayload } from "./payload";
+
+/**
+ * Dry runs of lane operations for eth_call and eth_estimateGas
+ *
+ * There is no EVM to execute against, so a call is "executed" by running the
+ * checks a submission would face (decoding, metadata schema, duplicate token
+ * IDs, ownership) against current lane state. Anything that would be
+ * rejected comes back as an execution-reverted error with the reason, the
+ * way a reverting contract call looks to viem and wallets. Failing to run the
+ * checks (e.g. lane state unreachable) is reported as is, not as a revert.
+ */
+
+export interface LaneCall {
+  from?: string;
+  to?: string | null;
+  data?: string;
+  input?: string;
+}
+
+// Intrinsic cost of a transaction plus its calldata, as the EVM charges it
+const TX_BASE_GAS = 21_000n;
+const ZERO_BYTE_GAS = 4n;
+const NONZERO_BYTE_GAS = 16n;
+
+// Rejections of the operation itself; anything else (lane state unreachable,
+// rate limits) is an infrastructure error and passes through unchanged
+const REVERT_CODES = new Set<number>([
+  JSON_RPC_ERRORS.INVALID_PARAMS,
+  JSON_RPC_ERRORS.NOT_TOKEN_OWNER,
+  JSON_RPC_ERRORS.TOKEN_ALREADY_MINTED,
+]);
+
+// Same shape as a node's revert: the reason in the message, Error(string) as data
+function revert(reason: string): RpcError {
+  return new RpcError(
+    JSON_RPC_ERRORS.EXECUTION_REVERTED,
+    `execution reverted: ${reason}`,
+    encodeErrorResult({
+      abi: [
+        {
+          type: "error",
+          name: "Error",
+          inputs: [{ name: "reason", type: "string" }],
+        },
+      ],
+      errorName: "Error",
+      args: [reason],
+    })
+  );
+}
+
+/**
+ * Simulate a call. Returns the decoded operation, or null for a call without
+ * calldata (a plain value transfer, which always succeeds).
+ */
+export async function simulateLaneCall(
+  call: LaneCall
+): Promise<LaneOperation | null> {
+  const data = call.data ?? call.input ?? "0x";
+  if (!isHex(data)) throw revert("calldata is not hex");
+  if (data === "0x") return null;
+
+  try {
+    const { operation } = decodeLanePayload(data as Hex);
+    await assertOperationExecutable(operation, call.from ?? "");
+    return operation;
+  } catch (error) {
+    if (error instanceof RpcError && REVERT_CODES.has(error.code)) {
+      throw revert(error.message);
+    }
+    throw error;
+  }
+}
+
+/** Gas a successful call would use: base cost plus calldata bytes */
+export function estimateLaneGas(call: LaneCall): Hex {
+  const data = call.data ?? call.input ?? "0x";
+  const bytes = hexToBytes(data as Hex);
+  const calldataGas = bytes.reduce(
+    (total, byte) => total + (byte === 0 ? ZERO_BYTE_GAS : NONZERO_BYTE_GAS),
+    0n
+  );
+  return toHex(TX_BASE_GAS + calldataGas);
+}
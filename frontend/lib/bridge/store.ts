@@ -0,0 +1,271 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { EthLog } from "./logs";
+
+/**
+ * Storage for the RPC bridge
+ *
+ * The bridge keeps its own record of submitted transactions, per-address
+ * nonces and the blocks those transactions landed in. Everything goes through
+ * the BridgeStore interface so the backend can be chosen per deployment:
+ *
+ * - memory: process-local Maps, lost on restart (handy for `npm run dev`)
+ * - file:   a JSON file on disk, survives restarts and redeploys when the
+ *           path is on a persistent volume. Single writer: one bridge
+ *           instance per file (see FileStore)
+ *
+ * Selected with BRIDGE_STORE ("memory" | "file"); the file location comes from
+ * BRIDGE_STORE_PATH. Production defaults to the file store.
+ */
+
+export interface StoredTransaction {
+  hash: string;
+  from: string;
+  to: string;
+  data: string;
+  // sha256 of the calldata bytes; the lane container records the same digest
+  payloadDigest: string;
+  // Sender nonce; orders a sender's transactions with the same calldata
+  nonce?: number;
+  timestamp: number;
+  // "pending" until the derived lane node reports an execution outcome
+  status: "pending" | "success" | "failed";
+  // Bridge block the outcome was sealed in (see lib/bridge/blocks)
+  blockNumber: string | null;
+  blockHash: string | null;
+  gasUsed: string | null;
+  // Signed transaction as submitted; absent for eth_sendTransaction
+  raw?: string | null;
+  // ERC-721 Transfer logs, fixed when the transaction is sealed in a block
+  logs?: EthLog[];
+}
+
+export interface StoredBlock {
+  number: string;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  transactions: string[];
+  // Derived lane node block that sequenced the transactions
+  derivedBlockNumber: string | null;
+}
+
+export interface BridgeStore {
+  getTransaction(hash: string): Promise<StoredTransaction | null>;
+  getTransactionsBySender(address: string): Promise<StoredTransaction[]>;
+  getTransactionsByPayloadDigest(digest: string): Promise<StoredTransaction[]>;
+  getPendingTransactions(): Promise<StoredTransaction[]>;
+  saveTransaction(tx: StoredTransaction): Promise<void>;
+  // All transactions, or only those with `status`
+  countTransactions(status?: StoredTransaction["status"]): Promise<number>;
+  getNonce(address: string): Promise<number>;
+  setNonce(address: string, nonce: number): Promise<void>;
+  getBlock(number: string): Promise<StoredBlock | null>;
+  getBlockByHash(hash: string): Promise<StoredBlock | null>;
+  getLatestBlock(): Promise<StoredBlock | null>;
+  saveBlock(block: StoredBlock): Promise<void>;
+}
+
+interface StoreData {
+  transactions: Record<string, StoredTransaction>;
+  nonces: Record<string, number>;
+  blocks: Record<string, StoredBlock>;
+}
+
+function emptyData(): StoreData {
+  return { transactions: {}, nonces: {}, blocks: {} };
+}
+
+// Block numbers are keyed by their numeric value so "0x01" and "0x1" match
+function blockKey(number: string) {
+  return BigInt(number).toString();
+}
+
+/**
+ * Shared implementation over a StoreData snapshot. Subclasses decide where
+ * the snapshot comes from and what happens after a write.
+ */
+abstract class SnapshotStore implements BridgeStore {
+  protected abstract load(): Promise<StoreData>;
+  protected abstract persist(data: StoreData): Promise<void>;
+
+  async getTransaction(hash: string) {
+    const data = await this.load();
+    return data.transactions[hash.toLowerCase()] ?? null;
+  }
+
+  async getTransactionsBySender(address: string) {
+    const data = await this.load();
+    const sender = address.toLowerCase();
+    return Object.values(data.transactions)
+      .filter((tx) => tx.from.toLowerCase() === sender)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async getTransactionsByPayloadDigest(digest: string) {
+    const data = await this.load();
+    return Object.values(data.transactions)
+      .filter((tx) => tx.payloadDigest === digest)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async getPendingTransactions() {
+    const data = await this.load();
+    return Object.values(data.transactions)
+      .filter((tx) => tx.status === "pending")
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async saveTransaction(tx: StoredTransaction) {
+    const data = await this.load();
+    data.transactions[tx.hash.toLowerCase()] = { ...tx };
+    await this.persist(data);
+  }
+
+  async countTransactions(status?: StoredTransaction["status"]) {
+    const data = await this.load();
+    const transactions = Object.values(data.transactions);
+    return status
+      ? transactions.filter((tx) => tx.status === status).length
+      : transactions.length;
+  }
+
+  async getNonce(address: string) {
+    const data = await this.load();
+    return data.nonces[address.toLowerCase()] ?? 0;
+  }
+
+  async setNonce(address: string, nonce: number) {
+    const data = await this.load();
+    data.nonces[address.toLowerCase()] = nonce;
+    await this.persist(data);
+  }
+
+  async getBlock(number: string) {
+    const data = await this.load();
+    return data.blocks[blockKey(number)] ?? null;
+  }
+
+  async getBlockByHash(hash: string) {
+    const data = await this.load();
+    const target = hash.toLowerCase();
+    return (
+      Object.values(data.blocks).find(
+        (block) => block.hash.toLowerCase() === target
+      ) ?? null
+    );
+  }
+
+  async getLatestBlock() {
+    const data = await this.load();
+    return Object.values(data.blocks).reduce<StoredBlock | null>(
+      (latest, block) =>
+        !latest || BigInt(block.number) > BigInt(latest.number)
+          ? block
+          : latest,
+      null
+    );
+  }
+
+  async saveBlock(block: StoredBlock) {
+    const data = await this.load();
+    data.blocks[blockKey(block.number)] = { ...block };
+    await this.persist(data);
+  }
+}
+
+/** Process-local store; the behaviour the bridge always had */
+export class MemoryStore extends SnapshotStore {
+  private data = emptyData();
+
+  protected async load() {
+    return this.data;
+  }
+
+  protected async persist() {
+    // Nothing to do, the snapshot is the store
+  }
+}
+
+/**
+ * JSON file store for a single bridge instance. Writes go to a temp file first
+ * and are renamed into place, so a crash never leaves a torn file; the file
+ * is re-read when its mtime changes (e.g. restored from a backup).
+ *
+ * There is no file lock: each write replaces the whole snapshot, and nonces
+ * and block numbers are serialized in process only (see withChainLock). A
+ * second instance writing the same file would drop the first one's records.
+ */
+export class FileStore extends SnapshotStore {
+  private data: StoreData | null = null;
+  private loadedMtime = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  protected async load() {
+    let mtime = 0;
+    try {
+      mtime = (await fs.stat(this.filePath)).mtimeMs;
+    } catch {
+      // No file yet: start empty and create it on the first write
+    }
+
+    if (!this.data || mtime !== this.loadedMtime) {
+      this.data = mtime
+        ? {
+            ...emptyData(),
+            ...JSON.parse(await fs.readFile(this.filePath, "utf8")),
+          }
+        : emptyData();
+      this.loadedMtime = mtime;
+    }
+    return this.data as StoreData;
+  }
+
+  protected persist(data: StoreData) {
+    // Serialize writes so concurrent requests cannot interleave renames
+    // (a failed write must not block the ones queued after it)
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, JSON.stringify(data));
+        await fs.rename(tmpPath, this.filePath);
+        this.loadedMtime = (await fs.stat(this.filePath)).mtimeMs;
+      });
+    return this.writeQueue;
+  }
+}
+
+function createStore(): BridgeStore {
+  const kind =
+    process.env.BRIDGE_STORE ||
+    (process.env.NODE_ENV === "production" ? "file" : "memory");
+
+  switch (kind) {
+    case "memory":
+      return new MemoryStore();
+    case "file":
+      return new FileStore(
+        path.resolve(process.env.BRIDGE_STORE_PATH || ".data/bridge-store.json")
+      );
+    default:
+      throw new Error(`Unknown BRIDGE_STORE "${kind}"`);
+  }
+}
+
+// Kept on globalThis so dev hot reloads reuse the same store
+const globalStore = globalThis as typeof globalThis & {
+  __bridgeStore?: BridgeStore;
+};
+
+export function getBridgeStore(): BridgeStore {
+  if (!globalStore.__bridgeStore) {
+    globalStore.__bridgeStore = createStore();
+  }
+  return globalStore.__bridgeStore;
+}
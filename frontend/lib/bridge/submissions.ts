@@ -0,0 +1,47 @@
+import { RpcError } from "./errors";
+
+/**
+ * Idempotent transaction submission
+ *
+ * Double clicks and wallet retries send the same transaction more than once,
+ * sometimes concurrently. The bridge forwards each transaction to the derived
+ * lane node once: callers submitting the same key while a submission is in
+ * flight share its outcome, and a node answering that it already has the
+ * transaction ("already known") counts as success.
+ */
+
+// Kept on globalThis so every route bundle sees the same in-flight submissions
+const globalSubmissions = globalThis as typeof globalThis & {
+  __bridgeSubmissions?: Map<string, Promise<string>>;
+};
+
+function inFlight() {
+  if (!globalSubmissions.__bridgeSubmissions) {
+    globalSubmissions.__bridgeSubmissions = new Map();
+  }
+  return globalSubmissions.__bridgeSubmissions;
+}
+
+/**
+ * Run `submit` once per `key` at a time. A caller arriving while it runs gets
+ * the same transaction hash (or error) instead of submitting again.
+ */
+export function submitOnce(
+  key: string,
+  submit: () => Promise<string>
+): Promise<string> {
+  const running = inFlight().get(key);
+  if (running) return running;
+
+  const submission = submit().finally(() => inFlight().delete(key));
+  inFlight().set(key, submission);
+  return submission;
+}
+
+// Messages geth, reth and erigon use for a transaction already in the pool
+const KNOWN_TRANSACTION = /already known|known transaction|already imported/i;
+
+/** Whether a node error means it already has the transaction */
+export function isKnownTransactionError(error: unknown): boolean {
+  return error instanceof RpcError && KNOWN_TRANSACTION.test(error.message);
+}
@@ -0,0 +1,117 @@
+import {
+  Address,
+  Hex,
+  isHex,
+  keccak256,
+  parseTransaction,
+  recoverTransactionAddress,
+  TransactionSerialized,
+  TransactionType,
+} from "viem";
+import { JSON_RPC_ERRORS, RpcError } from "./errors";
+
+/**
+ * Decoding and admission checks for signed transactions
+ *
+ * Every transaction type viem can parse is handled explicitly:
+ * - legacy:  accepted only with EIP-155 replay protection (chain ID in `v`)
+ * - eip2930, eip1559: accepted
+ * - eip4844 (blob) and eip7702 (set-code): rejected, the lane has no use for
+ *   blobs or delegated code
+ *
+ * Accepted transactions must be signed for this lane's chain ID.
+ */
+
+export interface DecodedTransaction {
+  hash: Hex;
+  type: TransactionType;
+  chainId: number;
+  from: Address;
+  to: Address | null;
+  data: Hex;
+  nonce: number;
+}
+
+export async function decodeSignedTransaction(
+  rawTx: string,
+  expectedChainId: number
+): Promise<DecodedTransaction> {
+  if (!isHex(rawTx)) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.INVALID_PARAMS,
+      "Invalid raw transaction format"
+    );
+  }
+
+  let parsed: ReturnType<typeof parseTransaction>;
+  try {
+    parsed = parseTransaction(rawTx);
+  } catch (error) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.INVALID_PARAMS,
+      "Invalid raw transaction format",
+      error instanceof Error ? error.message : undefined
+    );
+  }
+
+  const type = parsed.type as TransactionType;
+  switch (type) {
+    case "legacy":
+      // Pre-EIP-155 signatures (v = 27/28) carry no chain ID and can be
+      // replayed on any chain
+      if (parsed.chainId === undefined) {
+        throw new RpcError(
+          JSON_RPC_ERRORS.UNPROTECTED_TRANSACTION,
+          "Unprotected legacy transaction: sign with EIP-155 replay protection"
+        );
+      }
+      break;
+    case "eip2930":
+    case "eip1559":
+      break;
+    case "eip4844":
+    case "eip7702":
+      throw new RpcError(
+        JSON_RPC_ERRORS.UNSUPPORTED_TRANSACTION_TYPE,
+        `Transaction type ${type} is not supported by this lane`,
+        { type }
+      );
+    default:
+      throw new RpcError(
+        JSON_RPC_ERRORS.UNSUPPORTED_TRANSACTION_TYPE,
+        `Unknown transaction type ${String(type)}`
+      );
+  }
+
+  const chainId = parsed.chainId as number;
+  if (chainId !== expectedChainId) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.WRONG_CHAIN_ID,
+      `Transaction signed for chain ${chainId}, this lane is chain ${expectedChainId}`,
+      { expected: expectedChainId, actual: chainId }
+    );
+  }
+
+  let from: Address;
+  try {
+    from = await recoverTransactionAddress({
+      serializedTransaction: rawTx as TransactionSerialized,
+    });
+  } catch (error) {
+    throw new RpcError(
+      JSON_RPC_ERRORS.INVALID_PARAMS,
+      "Invalid transaction signature",
+      error instanceof Error ? error.message : undefined
+    );
+  }
+
+  return {
+    hash: keccak256(rawTx),
+    type,
+    chainId,
+    from,
+    to: parsed.to ?? null,
+    data: parsed.data ?? "0x",
+    nonce: parsed.nonce ?? 0,
+  };
+}
@@ -0,0 +1,86 @@
+import { zeroAddress } from "viem";
+import { getBridgeLane } from "@/lib/lanes";
+import { ZERO_HASH } from "./blocks";
+
+/**
+ * The read methods a typical wallet session calls against the bridge
+ *
+ * Collected from what MetaMask and viem's wallet and public actions request
+ * while connecting, showing an account, and preparing, sending and
+ * confirming a transaction. GET /api/rpc?check=wallet runs every entry
+ * through the dispatcher and reports the ones that fail, so a method that
+ * stops answering (or answers out of line with the block model) shows up
+ * before a wallet hits it.
+ *
+ * Only methods the bridge answers itself are listed: the check must not put
+ * load on the derived lane node, whose reachability the plain health check
+ * already reports. That leaves out eth_getTransactionCount (asks the node
+ * for the pending nonce) and eth_getTransactionReceipt of a hash the bridge
+ * does not know (looked up on the node).
+ */
+
+export interface WalletMethodCheck {
+  method: string;
+  params: unknown[];
+  // Where in the session the method is called, for the report
+  usedFor: string;
+}
+
+export function walletSessionMethods(): WalletMethodCheck[] {
+  const laneAddress = getBridgeLane().laneAddress;
+  return [
+    { method: "eth_chainId", params: [], usedFor: "connecting" },
+    { method: "net_version", params: [], usedFor: "connecting" },
+    { method: "web3_clientVersion", params: [], usedFor: "connecting" },
+    { method: "net_listening", params: [], usedFor: "connecting" },
+    { method: "eth_syncing", params: [], usedFor: "connecting" },
+    { method: "eth_accounts", params: [], usedFor: "connecting" },
+    { method: "eth_blockNumber", params: [], usedFor: "connecting" },
+    {
+      method: "eth_getBalance",
+      params: [zeroAddress, "latest"],
+      usedFor: "account",
+    },
+    {
+      method: "eth_getCode",
+      params: [laneAddress, "latest"],
+      usedFor: "transaction setup (contract detection)",
+    },
+    {
+      method: "eth_getBlockByNumber",
+      params: ["latest", false],
+      usedFor: "transaction setup (EIP-1559 detection)",
+    },
+    { method: "eth_gasPrice", params: [], usedFor: "transaction setup" },
+    {
+      method: "eth_maxPriorityFeePerGas",
+      params: [],
+      usedFor: "transaction setup",
+    },
+    {
+      method: "eth_feeHistory",
+      params: ["0x5", "latest", [25, 50, 75]],
+      usedFor: "transaction setup",
+    },
+    {
+      method: "eth_estimateGas",
+      params: [{ from: zeroAddress, to: laneAddress }],
+      usedFor: "transaction setup",
+    },
+    {
+      method: "eth_call",
+      params: [{ from: zeroAddress, to: laneAddress }, "latest"],
+      usedFor: "transaction setup",
+    },
+    {
+      method: "eth_getTransactionByHash",
+      params: [ZERO_HASH],
+      usedFor: "confirmation",
+    },
+    {
+      method: "eth_getLogs",
+      params: [{ address: laneAddress, fromBlock: "latest" }],
+      usedFor: "confirmation",
+    },
+  ];
+}
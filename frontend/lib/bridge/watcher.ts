@@ -0,0 +1,160 @@
+import { publishBridgeEvent, subscribeBridgeEvents } from "./events";
+import { logger } from "./logger";
+import { refreshTransactionStatus, resolveLaneTransaction } from "./receipts";
+import { getBridgeStore } from "./store";
+
+/**
+ * Background watcher for bridge transactions
+ *
+ * Nothing polls the derived lane node on its own: receipts are normally
+ * fetched when a client asks (a receipt lookup, or eth_blockNumber through
+ * pollPendingTransactions). While at least one event stream is open, this
+ * watcher polls every WATCH_INTERVAL ms for the transactions the bridge has
+ * forwarded, so block, status, log and token events are published without
+ * anyone asking. Transactions stop being watched once executed, failed or
+ * older than WATCH_TIMEOUT.
+ */
+
+const WATCH_INTERVAL = Number(process.env.BRIDGE_WATCH_INTERVAL || 2000);
+const WATCH_TIMEOUT = 10 * 60 * 1000;
+
+interface WatcherState {
+  clients: number;
+  timer: ReturnType<typeof setInterval> | null;
+  unsubscribe: (() => void) | null;
+  ticking: boolean;
+  // Hash → time the watcher started tracking it
+  tracked: Map<string, number>;
+  // Last pollPendingTransactions run (ms)
+  lastPoll: number;
+}
+
+// Kept on globalThis so dev hot reloads don't start a second poller
+const globalWatcher = globalThis as typeof globalThis & {
+  __bridgeWatcher?: WatcherState;
+};
+
+function getState(): WatcherState {
+  if (!globalWatcher.__bridgeWatcher) {
+    globalWatcher.__bridgeWatcher = {
+      clients: 0,
+      timer: null,
+      unsubscribe: null,
+      ticking: false,
+      tracked: new Map(),
+      lastPoll: 0,
+    };
+  }
+  return globalWatcher.__bridgeWatcher;
+}
+
+async function tick(state: WatcherState) {
+  if (state.ticking) return;
+  state.ticking = true;
+
+  const store = getBridgeStore();
+  try {
+    for (const [hash, since] of state.tracked) {
+      const tx = await store.getTransaction(hash);
+      if (!tx || Date.now() - since > WATCH_TIMEOUT) {
+        state.tracked.delete(hash);
+        continue;
+      }
+
+      await refreshTransactionStatus(tx);
+      if (tx.status === "failed") {
+        state.tracked.delete(hash);
+        continue;
+      }
+
+      const { status, token } = await resolveLaneTransaction(tx);
+      if (!token) continue;
+
+      publishBridgeEvent({ type: "lane_transactions", result: status });
+      publishBridgeEvent({ type: "lane_tokens", result: token });
+      state.tracked.delete(hash);
+    }
+  } catch (error) {
+    logger.error("transaction watcher failed", { error });
+  } finally {
+    state.ticking = false;
+  }
+}
+
+async function start(state: WatcherState) {
+  state.unsubscribe = subscribeBridgeEvents((event) => {
+    if (event.type === "newPendingTransactions") {
+      state.tracked.set(event.result, Date.now());
+    }
+  });
+  state.timer = setInterval(() => tick(state), WATCH_INTERVAL);
+
+  // Pick up transactions forwarded before the first client connected
+  const pending = await getBridgeStore().getPendingTransactions();
+  if (!state.timer) return;
+  for (const tx of pending) {
+    if (Date.now() - tx.timestamp <= WATCH_TIMEOUT) {
+      state.tracked.set(tx.hash, tx.timestamp);
+    }
+  }
+}
+
+function stop(state: WatcherState) {
+  if (state.timer) clearInterval(state.timer);
+  state.unsubscribe?.();
+  state.timer = null;
+  state.unsubscribe = null;
+  state.tracked.clear();
+}
+
+/**
+ * Keep the watcher running for one event stream client. Returns the release
+ * function; the watcher stops when the last client releases it.
+ */
+export function retainTransactionWatcher(): () => void {
+  const state = getState();
+  state.clients += 1;
+  if (state.clients === 1) {
+    start(state).catch((error) =>
+      logger.error("transaction watcher failed to start", { error })
+    );
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    state.clients -= 1;
+    if (state.clients === 0) stop(state);
+  };
+}
+
+/**
+ * Resolve the bridge's pending transactions in the background, at most once
+ * per WATCH_INTERVAL, while no event stream keeps the watcher running.
+ * Clients that follow the chain by polling eth_blockNumber (viem's
+ * waitForTransactionReceipt, most wallets) only ask for a receipt again once
+ * a new block shows up, and blocks are only sealed when receipts are looked up.
+ */
+export function pollPendingTransactions() {
+  const state = getState();
+  if (state.timer || state.ticking) return;
+  if (Date.now() - state.lastPoll < WATCH_INTERVAL) return;
+  state.lastPoll = Date.now();
+  state.ticking = true;
+
+  (async () => {
+    const pending = await getBridgeStore().getPendingTransactions();
+    for (const tx of pending) {
+      if (Date.now() - tx.timestamp <= WATCH_TIMEOUT) {
+        await refreshTransactionStatus(tx);
+      }
+    }
+  })()
+    .catch((error) =>
+      logger.error("pending transaction poll failed", { error })
+    )
+    .finally(() => {
+      state.ticking = false;
+    });
+}
@@ -1,66 +1,591 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  custom,
+  http,
+  defineChain,
+  Account,
+  Address,
+  BaseError,
+  Chain,
+  EIP1193Provider,
+  ExecutionRevertedError,
+  Hex,
+  HttpRequestError,
+  RpcRequestError,
+  RpcLog,
+  rpcSchema,
+  size,
+  TimeoutError,
+  Transport,
+  WalletClient,
+} from 'viem';
+import {
+  LANE_SUBSCRIPTIONS,
+  LaneBlockHead,
+  LaneSubscription,
+  LaneTokenEvent,
+  LaneTransactionStatus,
+  MintTransaction,
+  NftToken,
+  NftTokenPage,
+  PageOptions,
+  TokenFilter,
+} from './nft-types';
+import {
+  MetadataValidationError,
+  NftMetadata,
+  validatePayloadSize,
+  ValidationIssue,
+} from './metadata';
+import { encodeLaneOperation, LaneOperation, validateLaneOperation } from './lane-codec';
+import { BatchRowResult, findDuplicateTokenIds } from './batch-mint';
+import { JSON_RPC_ERRORS } from './bridge/errors';
+import { getSelectedLane, LaneConfig } from './lanes';
 
-import { createWalletClient, http, defineChain, Hex } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
-
-// Derived Lane Chain Definition
-export const derivedLane = defineChain({
-  id: 31337, // Default Anvil chain ID. If derived lane uses something else, we might need to change this.
-  name: 'Derived Lane',
-  network: 'derived-lane',
-  nativeCurrency: {
-    decimals: 18,
-    name: 'Ether',
-    symbol: 'ETH',
-  },
-  rpcUrls: {
-    default: {
-      http: ['http://localhost:3000/api/rpc'],
+// viem chain definition of a configured lane (the one picked in the lane switcher by default)
+export function laneChain(lane: LaneConfig = getSelectedLane()) {
+  return defineChain({
+    id: lane.chainId,
+    name: lane.name,
+    network: lane.id,
+    nativeCurrency: {
+      decimals: 18,
+      name: 'Ether',
+      symbol: 'ETH',
     },
-    public: {
-      http: ['http://localhost:3000/api/rpc'],
+    rpcUrls: {
+      default: {
+        http: [lane.rpcUrl],
+      },
+      public: {
+        http: [lane.rpcUrl],
+      },
     },
-  },
-});
+  });
+}
+
+// Dev mode enables signing with a pasted private key instead of a browser wallet.
+// Never turn it on for a deployment that real users reach.
+export const DEV_MODE = process.env.NEXT_PUBLIC_DEV_MODE === 'true';
 
-// Default Dev Private Key (Anvil Account #2)
-// 0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a
-const DEFAULT_DEV_KEY = '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a';
-const DERIVED_LANE_ADDRESS = '0x0000000000000000000000000000000000000042';
+// Default Dev Private Key (Anvil Account #2), only offered in dev mode
+export const DEV_PRIVATE_KEY: Hex = '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a';
 
 export interface MintData {
   token_id?: string;
-  metadata: Record<string, any>;
+  metadata: NftMetadata;
   owner?: string;
 }
 
-export async function sendMintTransaction(data: MintData, privateKey: Hex = DEFAULT_DEV_KEY) {
+/**
+ * Who signs lane transactions: any viem Account (e.g. `privateKeyToAccount` in
+ * dev mode) or an injected EIP-1193 wallet together with the connected address.
+ */
+export type LaneSigner = Account | { provider: EIP1193Provider; address: Address };
+
+declare global {
+  interface Window {
+    ethereum?: EIP1193Provider;
+  }
+}
+
+// Injected browser wallet (MetaMask, Rabby, ...), if there is one
+export function getInjectedProvider(): EIP1193Provider | undefined {
+  if (typeof window === 'undefined') return undefined;
+  return window.ethereum;
+}
+
+// Ask the wallet to switch to a lane, adding the chain first if it doesn't know it
+export async function switchToDerivedLane(provider: EIP1193Provider, lane: LaneConfig = getSelectedLane()) {
+  const client = createWalletClient({ transport: custom(provider) });
+  const chain = laneChain(lane);
+
   try {
-    const account = privateKeyToAccount(privateKey);
+    await client.switchChain({ id: chain.id });
+  } catch (error) {
+    // 4902: the wallet has no such chain configured yet
+    if ((error as { code?: number }).code !== 4902) throw error;
+    await client.addChain({ chain });
+  }
+}
 
-    const client = createWalletClient({
-      account,
-      chain: derivedLane,
-      transport: http(),
-    });
+// Request account access and make sure the wallet is on the selected lane
+export async function connectWallet(provider: EIP1193Provider): Promise<Address> {
+  const client = createWalletClient({ transport: custom(provider) });
+  const [address] = await client.requestAddresses();
+  if (!address) throw new Error('Wallet returned no accounts');
+
+  await switchToDerivedLane(provider);
+  return address;
+}
 
-    const jsonData = JSON.stringify(data);
-    const hexData = `0x${Buffer.from(jsonData).toString('hex')}` as Hex;
+type LaneWalletClient = WalletClient<Transport, Chain, Account>;
 
-    console.log('Sending transaction to derived lane...', {
-      to: DERIVED_LANE_ADDRESS,
-      data: jsonData, // Log clear JSON for debugging
-      hex: hexData,
+async function createLaneWalletClient(signer: LaneSigner, lane: LaneConfig = getSelectedLane()): Promise<LaneWalletClient> {
+  if ('provider' in signer) {
+    // The wallet may have been moved to another network since connecting
+    await switchToDerivedLane(signer.provider, lane);
+    return createWalletClient({
+      account: signer.address,
+      chain: laneChain(lane),
+      transport: custom(signer.provider),
     });
+  }
+
+  return createWalletClient({
+    account: signer,
+    chain: laneChain(lane),
+    transport: http(),
+  });
+}
+
+// Outcome of signing and sending a lane operation; errors are returned, not thrown
+export interface LaneSendResult {
+  success: boolean;
+  hash?: Hex;
+  error?: string;
+  issues?: ValidationIssue[];
+}
+
+// Schema and size problems with an operation, empty when it can be sent
+export function validateOperation(operation: LaneOperation): ValidationIssue[] {
+  const issues = validateLaneOperation(operation);
+  return issues.length ? issues : validatePayloadSize(size(encodeLaneOperation(operation)));
+}
 
+export function validateMint(data: MintData): ValidationIssue[] {
+  return validateOperation({ op: 'mint', ...data });
+}
+
+/**
+ * Dry-run an operation on the bridge (eth_call against current lane state).
+ * Returns the reason it would be rejected, or null when it would go through.
+ */
+export async function preflightOperation(
+  operation: LaneOperation,
+  from: Address,
+  lane: LaneConfig = getSelectedLane(),
+): Promise<string | null> {
+  try {
+    await getLaneClient(lane).call({ account: from, to: lane.laneAddress, data: encodeLaneOperation(operation) });
+    return null;
+  } catch (error) {
+    const reverted = error instanceof BaseError ? error.walk((e) => e instanceof ExecutionRevertedError) : null;
+    if (reverted instanceof ExecutionRevertedError) return reverted.details.replace(/^execution reverted: /, '');
+    throw error;
+  }
+}
+
+async function sendLaneOperation(operation: LaneOperation, signer: LaneSigner): Promise<LaneSendResult> {
+  try {
+    // Never sign (and pay to sequence) a payload the lane would reject
+    const issues = validateOperation(operation);
+    if (issues.length) throw new MetadataValidationError(issues);
+
+    const lane = getSelectedLane();
+    // Nor one lane state would refuse: duplicate token IDs, transfers by non-owners
+    const reason = await preflightOperation(operation, signer.address, lane);
+    if (reason) throw new Error(`Rejected by the lane: ${reason}`);
+
+    const client = await createLaneWalletClient(signer, lane);
+
+    const hexData = encodeLaneOperation(operation);
     const hash = await client.sendTransaction({
-      to: DERIVED_LANE_ADDRESS,
+      to: lane.laneAddress,
       value: 0n,
       data: hexData,
     });
 
     return { success: true, hash };
   } catch (error) {
-    console.error('Error sending transaction:', error);
-    return { success: false, error: error instanceof Error ? error.message : String(error) };
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      issues: error instanceof MetadataValidationError ? error.issues : undefined,
+    };
+  }
+}
+
+export function sendMintTransaction(data: MintData, signer: LaneSigner) {
+  return sendLaneOperation({ op: 'mint', ...data }, signer);
+}
+
+// Move a token to a new owner; the bridge only accepts this from the current owner
+export function sendTransferTransaction(tokenId: string, to: string, signer: LaneSigner) {
+  return sendLaneOperation({ op: 'transfer', token_id: tokenId, to }, signer);
+}
+
+// Destroy a token; the bridge only accepts this from the current owner
+export function sendBurnTransaction(tokenId: string, signer: LaneSigner) {
+  return sendLaneOperation({ op: 'burn', token_id: tokenId }, signer);
+}
+
+// Lane methods served by the RPC bridge (nft_* queries and lane_* status)
+type LaneRpcSchema = [
+  {
+    Method: 'lane_getTransactionStatus';
+    Parameters: [hash: string];
+    ReturnType: LaneTransactionStatus | null;
+  },
+  {
+    Method: 'nft_getToken';
+    Parameters: [tokenId: string];
+    ReturnType: NftToken | null;
+  },
+  {
+    Method: 'nft_tokensOfOwner';
+    Parameters: [owner: string, page?: PageOptions];
+    ReturnType: NftTokenPage;
+  },
+  {
+    Method: 'nft_listTokens';
+    Parameters: [filter?: TokenFilter];
+    ReturnType: NftTokenPage;
+  },
+  {
+    Method: 'nft_getMintTransaction';
+    Parameters: [tokenId: string];
+    ReturnType: MintTransaction | null;
+  },
+  {
+    Method: 'nft_totalSupply';
+    Parameters?: undefined;
+    ReturnType: number;
+  },
+];
+
+function createLaneClient(lane: LaneConfig) {
+  return createPublicClient({
+    chain: laneChain(lane),
+    transport: http(),
+    rpcSchema: rpcSchema<LaneRpcSchema>(),
+  });
+}
+
+const laneClients = new Map<string, ReturnType<typeof createLaneClient>>();
+
+// Read client for a lane's RPC bridge, created once per lane
+function getLaneClient(lane: LaneConfig = getSelectedLane()) {
+  let client = laneClients.get(lane.id);
+  if (!client) {
+    client = createLaneClient(lane);
+    laneClients.set(lane.id, client);
+  }
+  return client;
+}
+
+// Owner, metadata and mint time of a token, or null if it was never minted
+export function getToken(tokenId: string) {
+  return getLaneClient().request({ method: 'nft_getToken', params: [tokenId] });
+}
+
+export function getTokensOfOwner(owner: string, page: PageOptions = {}) {
+  return getLaneClient().request({ method: 'nft_tokensOfOwner', params: [owner, page] });
+}
+
+// All tokens in mint order, optionally only those of one owner
+export function listTokens(filter: TokenFilter = {}) {
+  return getLaneClient().request({ method: 'nft_listTokens', params: [filter] });
+}
+
+// Bridge record of the transaction that minted a token, if it went through this bridge
+export function getMintTransaction(tokenId: string) {
+  return getLaneClient().request({ method: 'nft_getMintTransaction', params: [tokenId] });
+}
+
+export function getTotalSupply() {
+  return getLaneClient().request({ method: 'nft_totalSupply' });
+}
+
+const TRANSACTION_TIMEOUT = 120_000;
+const STATUS_POLL_INTERVAL = 2_000;
+
+/**
+ * Follow a submitted mint, transfer or burn until it is executed or fails,
+ * reporting each stage (forwarded → sequenced → executed) through `onStage`.
+ * For mints the final status carries the token_id the lane actually assigned.
+ * Rejects on timeout or RPC errors.
+ */
+export async function trackLaneTransaction(
+  hash: Hex,
+  onStage?: (status: LaneTransactionStatus) => void,
+  timeout = TRANSACTION_TIMEOUT,
+): Promise<LaneTransactionStatus> {
+  const deadline = Date.now() + timeout;
+  const client = getLaneClient();
+  onStage?.({ hash, stage: 'forwarded', blockNumber: null, tokenId: null, error: null });
+
+  const receipt = await client.waitForTransactionReceipt({
+    hash,
+    timeout,
+    pollingInterval: STATUS_POLL_INTERVAL,
+  });
+  const blockNumber = `0x${receipt.blockNumber.toString(16)}`;
+
+  if (receipt.status === 'reverted') {
+    const failed: LaneTransactionStatus = {
+      hash,
+      stage: 'failed',
+      blockNumber,
+      tokenId: null,
+      error: `Execution failed in block ${receipt.blockNumber}`,
+    };
+    onStage?.(failed);
+    return failed;
+  }
+  onStage?.({ hash, stage: 'sequenced', blockNumber, tokenId: null, error: null });
+
+  // The container's effect shows up in lane state once it has executed the operation
+  while (Date.now() < deadline) {
+    const status = await client.request({ method: 'lane_getTransactionStatus', params: [hash] });
+    if (status && (status.stage === 'executed' || status.stage === 'failed')) {
+      onStage?.(status);
+      return status;
+    }
+    await new Promise((resolve) => setTimeout(resolve, STATUS_POLL_INTERVAL));
+  }
+
+  throw new Error(`Timed out after ${timeout / 1000}s waiting for ${hash} to execute`);
+}
+
+// One notification from the bridge's event stream, tagged with its subscription
+export type LaneEvent =
+  | { subscription: 'newHeads'; result: LaneBlockHead }
+  | { subscription: 'logs'; result: RpcLog }
+  | { subscription: 'newPendingTransactions'; result: Hex }
+  | { subscription: 'lane_transactions'; result: LaneTransactionStatus }
+  | { subscription: 'lane_tokens'; result: LaneTokenEvent };
+
+export interface LaneEventOptions {
+  subscriptions?: LaneSubscription[];
+  // eth_getLogs-style filter for the logs subscription
+  logFilter?: { address?: string | string[]; topics?: (Hex | Hex[] | null)[] };
+  onOpen?: () => void;
+  // Called when the connection drops; EventSource reconnects on its own
+  onError?: () => void;
+}
+
+/**
+ * Follow a lane's live bridge events (server-sent events from <rpcUrl>/events).
+ * Returns a function that closes the stream.
+ */
+export function subscribeLaneEvents(
+  onEvent: (event: LaneEvent) => void,
+  { subscriptions = LANE_SUBSCRIPTIONS, logFilter, onOpen, onError }: LaneEventOptions = {},
+  lane: LaneConfig = getSelectedLane(),
+): () => void {
+  const url = new URL(`${lane.rpcUrl.replace(/\/$/, '')}/events`);
+  url.searchParams.set('subscribe', subscriptions.join(','));
+  if (logFilter) url.searchParams.set('filter', JSON.stringify(logFilter));
+
+  const source = new EventSource(url);
+  const listener = (e: MessageEvent<string>) => {
+    let result: unknown;
+    try {
+      result = JSON.parse(e.data).params.result;
+    } catch {
+      // Not an eth_subscription notification (e.g. cut off by a proxy): skip it
+      return;
+    }
+    onEvent({ subscription: e.type, result } as LaneEvent);
+  };
+  subscriptions.forEach((name) => source.addEventListener(name, listener));
+  if (onOpen) source.onopen = onOpen;
+  if (onError) source.onerror = onError;
+
+  return () => source.close();
+}
+
+// Per-row schema, size and duplicate token_id problems of a batch; empty arrays for valid rows
+export function validateBatchMint(rows: MintData[]): ValidationIssue[][] {
+  const duplicates = findDuplicateTokenIds(rows.map((data) => ({ data })));
+  return rows.map((data, index) => {
+    const issues = validateMint(data);
+    const duplicate = duplicates.get(index);
+    return duplicate ? [...issues, duplicate] : issues;
+  });
+}
+
+export interface BatchMintOptions {
+  // Transactions in flight at once
+  concurrency?: number;
+  // Extra attempts per row after a transient failure; rate-limit waits don't count
+  maxRetries?: number;
+  // Follow the mints until they execute (true) or stop at submission
+  track?: boolean;
+  onUpdate?: (result: BatchRowResult) => void;
+}
+
+const BATCH_CONCURRENCY = 4;
+const BATCH_MAX_RETRIES = 5;
+const BATCH_RETRY_DELAY = 500;
+
+// Longest rate-limit wait a batch sits out; daily quotas fail the row instead
+const BATCH_MAX_RATE_LIMIT_WAIT = 60;
+
+// Seconds the bridge asked us to wait, for rate-limit errors (see lib/bridge/limits)
+function rateLimitWait(error: BaseError): number | null {
+  const rpcError = error.walk((e) => e instanceof RpcRequestError) as RpcRequestError | null;
+  if (rpcError?.code !== JSON_RPC_ERRORS.LIMIT_EXCEEDED) return null;
+  return (rpcError.data as { retryAfter?: number } | undefined)?.retryAfter ?? 1;
+}
+
+/**
+ * Worth retrying: the bridge or node was unreachable or failed internally, or
+ * an earlier nonce of the same batch has not arrived yet (nonce too high).
+ */
+function isTransientError(error: unknown) {
+  if (!(error instanceof BaseError)) return false;
+  if (error.walk((e) => e instanceof HttpRequestError || e instanceof TimeoutError)) return true;
+
+  const rpcError = error.walk((e) => e instanceof RpcRequestError) as RpcRequestError | null;
+  return rpcError?.code === JSON_RPC_ERRORS.NONCE_TOO_HIGH || rpcError?.code === JSON_RPC_ERRORS.INTERNAL_ERROR;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// The bridge's own error message where there is one, rather than viem's generic summary
+function batchErrorMessage(error: unknown) {
+  if (!(error instanceof BaseError)) return error instanceof Error ? error.message : String(error);
+  const rpcError = error.walk((e) => e instanceof RpcRequestError) as RpcRequestError | null;
+  return rpcError?.details || error.shortMessage;
+}
+
+/**
+ * Mint many tokens from one signer. Every row is validated before anything is
+ * signed; then each row gets its own nonce (in row order, starting at the
+ * signer's pending count) and up to `concurrency` are sent at once, retrying
+ * transient failures with exponential backoff. Local accounts sign each row
+ * once, so a retry resends the identical transaction and the bridge answers
+ * with the known hash if the first attempt did get through.
+ *
+ * Sends are paced to the signer's rate limit: when the bridge asks for a wait
+ * of up to a minute, every worker sits it out and the row is sent again
+ * without using up a retry. Longer waits (daily quotas) fail the row.
+ *
+ * Submitted mints are followed together: one event stream for the whole
+ * batch, plus a single status poll (one row per interval) for events missed
+ * while the stream reconnects. Rows still unresolved at the timeout stay
+ * "submitted"; lookup errors are never reported as failed mints.
+ *
+ * A row that fails for good leaves a nonce gap, so later rows fail with nonce
+ * errors once their retries run out.
+ */
+export async function sendBatchMint(
+  rows: MintData[],
+  signer: LaneSigner,
+  options: BatchMintOptions = {},
+): Promise<BatchRowResult[]> {
+  const { concurrency = BATCH_CONCURRENCY, maxRetries = BATCH_MAX_RETRIES, track = true, onUpdate } = options;
+
+  const issues = validateBatchMint(rows).flatMap((rowIssues, index) =>
+    rowIssues.map((issue) => ({ field: `rows[${index}].${issue.field}`, message: issue.message })),
+  );
+  if (issues.length) throw new MetadataValidationError(issues);
+
+  const lane = getSelectedLane();
+  const client = await createLaneWalletClient(signer, lane);
+  const laneClient = getLaneClient(lane);
+  const startNonce = await laneClient.getTransactionCount({ address: client.account.address, blockTag: 'pending' });
+
+  const results: BatchRowResult[] = rows.map((data, index) => ({ row: index + 1, data, status: 'queued', attempts: 0 }));
+  const update = (index: number, patch: Partial<BatchRowResult>) => {
+    results[index] = { ...results[index], ...patch };
+    onUpdate?.(results[index]);
+  };
+
+  // Submitted rows not executed or failed yet, by transaction hash
+  const awaiting = new Map<string, number>();
+  const settle = (status: LaneTransactionStatus | null) => {
+    if (!status || (status.stage !== 'executed' && status.stage !== 'failed')) return;
+    const index = awaiting.get(status.hash);
+    if (index === undefined) return;
+    awaiting.delete(status.hash);
+    update(index, { status: status.stage, tokenId: status.tokenId, error: status.error ?? undefined });
+  };
+  // Opened before the first send so no outcome is missed
+  const unsubscribe = track
+    ? subscribeLaneEvents(
+        (event) => {
+          if (event.subscription === 'lane_transactions') settle(event.result);
+        },
+        { subscriptions: ['lane_transactions'] },
+        lane,
+      )
+    : () => {};
+
+  // Rate limits count per signer, so a wait one worker is asked for applies to all of them
+  let resumeAt = 0;
+
+  const submitRow = async (index: number) => {
+    const nonce = startNonce + index;
+    const data = encodeLaneOperation({ op: 'mint', ...rows[index] });
+    let raw: Hex | undefined;
+    let retries = 0;
+
+    for (let attempt = 1; ; attempt++) {
+      if (resumeAt > Date.now()) await sleep(resumeAt - Date.now());
+      update(index, { status: attempt === 1 ? 'sending' : 'retrying', nonce, attempts: attempt });
+      try {
+        let hash: Hex;
+        if (client.account.type === 'local') {
+          if (!raw) {
+            const request = await client.prepareTransactionRequest({ to: lane.laneAddress, value: 0n, data, nonce });
+            raw = await client.signTransaction(request);
+          }
+          hash = await client.sendRawTransaction({ serializedTransaction: raw });
+        } else {
+          hash = await client.sendTransaction({ to: lane.laneAddress, value: 0n, data, nonce });
+        }
+
+        if (track) awaiting.set(hash, index);
+        update(index, { status: 'submitted', hash, error: undefined });
+        return;
+      } catch (error) {
+        const message = batchErrorMessage(error);
+        const wait = error instanceof BaseError ? rateLimitWait(error) : null;
+        if (wait !== null && wait <= BATCH_MAX_RATE_LIMIT_WAIT) {
+          resumeAt = Math.max(resumeAt, Date.now() + wait * 1000);
+          update(index, { error: message });
+          continue;
+        }
+        if (++retries > maxRetries || !isTransientError(error)) {
+          update(index, { status: 'failed', error: message });
+          return;
+        }
+        update(index, { error: message });
+        await sleep(BATCH_RETRY_DELAY * 2 ** (retries - 1));
+      }
+    }
+  };
+
+  // Workers pull rows in order, so nonces reach the bridge roughly in sequence
+  let next = 0;
+  const worker = async () => {
+    while (next < rows.length) await submitRow(next++);
+  };
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, rows.length) }, worker));
+
+    const deadline = Date.now() + TRANSACTION_TIMEOUT;
+    while (awaiting.size && Date.now() < deadline) {
+      await sleep(STATUS_POLL_INTERVAL);
+      const [hash, index] = awaiting.entries().next().value!;
+      try {
+        settle(await laneClient.request({ method: 'lane_getTransactionStatus', params: [hash as Hex] }));
+      } catch {
+        // Checked again on the next round
+      }
+      // Round robin: move it behind the others
+      if (awaiting.delete(hash)) awaiting.set(hash, index);
+    }
+  } finally {
+    unsubscribe();
+  }
+
+  for (const index of awaiting.values()) {
+    update(index, { error: `Not executed after ${TRANSACTION_TIMEOUT / 1000}s; check the transaction later` });
   }
+  return results;
 }
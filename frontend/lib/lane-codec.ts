@@ -0,0 +1,179 @@
+import { BaseError, concat, decodeAbiParameters, encodeAbiParameters, Hex, hexToBytes, isAddress, parseAbiParameters, size, slice, toHex } from 'viem';
+import { NftMetadata, ValidationIssue, validateMintData } from './metadata';
+
+/**
+ * Calldata codec for lane operations, shared by lane-client, the RPC bridge
+ * and (in Python) the lane container.
+ *
+ * Envelope layout:
+ *
+ *   0x4e4c ("NL") | version (1 byte) | operation (1 byte) | ABI-encoded body
+ *
+ * Version 1 bodies are ABI tuples of strings:
+ *   mint:     (token_id, owner, metadata JSON)  - empty token_id/owner: let the lane choose
+ *   transfer: (token_id, to)           - to: a 20-byte hex address, any case
+ *   burn:     (token_id)
+ *
+ * Calldata without the magic prefix is decoded as a legacy JSON mint
+ * ({ token_id?, owner?, metadata }) so older clients keep working.
+ */
+
+export const LANE_CODEC_MAGIC: Hex = '0x4e4c';
+export const LANE_CODEC_VERSION = 1;
+
+export const LANE_OPERATION_CODES = {
+  mint: 1,
+  transfer: 2,
+  burn: 3,
+} as const;
+
+export type LaneOperation =
+  | { op: 'mint'; token_id?: string; owner?: string; metadata: NftMetadata }
+  | { op: 'transfer'; token_id: string; to: string }
+  | { op: 'burn'; token_id: string };
+
+export type LaneOperationType = LaneOperation['op'];
+
+export interface DecodedLaneCalldata {
+  format: 'envelope' | 'legacy-json';
+  version: number;
+  operation: LaneOperation;
+}
+
+export class LaneCodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LaneCodecError';
+  }
+}
+
+const BODY_SCHEMAS = {
+  mint: parseAbiParameters('string tokenId, string owner, string metadata'),
+  transfer: parseAbiParameters('string tokenId, string to'),
+  burn: parseAbiParameters('string tokenId'),
+};
+
+function encodeBody(operation: LaneOperation): Hex {
+  switch (operation.op) {
+    case 'mint':
+      return encodeAbiParameters(BODY_SCHEMAS.mint, [
+        operation.token_id ?? '',
+        operation.owner ?? '',
+        JSON.stringify(operation.metadata),
+      ]);
+    case 'transfer':
+      return encodeAbiParameters(BODY_SCHEMAS.transfer, [operation.token_id, operation.to]);
+    case 'burn':
+      return encodeAbiParameters(BODY_SCHEMAS.burn, [operation.token_id]);
+  }
+}
+
+export function encodeLaneOperation(operation: LaneOperation): Hex {
+  return concat([
+    LANE_CODEC_MAGIC,
+    toHex(LANE_CODEC_VERSION, { size: 1 }),
+    toHex(LANE_OPERATION_CODES[operation.op], { size: 1 }),
+    encodeBody(operation),
+  ]);
+}
+
+function decodeBody(type: LaneOperationType, body: Hex): LaneOperation {
+  switch (type) {
+    case 'mint': {
+      const [tokenId, owner, metadata] = decodeAbiParameters(BODY_SCHEMAS.mint, body);
+      let parsed: NftMetadata;
+      try {
+        parsed = JSON.parse(metadata);
+      } catch {
+        throw new LaneCodecError('Mint metadata is not valid JSON');
+      }
+      return {
+        op: 'mint',
+        ...(tokenId ? { token_id: tokenId } : {}),
+        ...(owner ? { owner } : {}),
+        metadata: parsed,
+      };
+    }
+    case 'transfer': {
+      const [tokenId, to] = decodeAbiParameters(BODY_SCHEMAS.transfer, body);
+      // Lowercased, as the lane stores the new owner
+      return { op: 'transfer', token_id: tokenId, to: to.toLowerCase() };
+    }
+    case 'burn': {
+      const [tokenId] = decodeAbiParameters(BODY_SCHEMAS.burn, body);
+      return { op: 'burn', token_id: tokenId };
+    }
+  }
+}
+
+function decodeLegacyJson(data: Hex): DecodedLaneCalldata {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(hexToBytes(data)));
+  } catch {
+    throw new LaneCodecError('Calldata is neither a lane envelope nor a JSON mint request');
+  }
+
+  if (typeof payload !== 'object' || payload === null || !('token_id' in payload || 'metadata' in payload)) {
+    throw new LaneCodecError('JSON calldata is not a mint request');
+  }
+
+  return {
+    format: 'legacy-json',
+    version: 0,
+    // `op` goes last so a payload field can't turn the mint into something else
+    operation: { ...(payload as Omit<Extract<LaneOperation, { op: 'mint' }>, 'op'>), op: 'mint' },
+  };
+}
+
+export function decodeLaneCalldata(data: Hex): DecodedLaneCalldata {
+  if (size(data) < 4 || slice(data, 0, 2) !== LANE_CODEC_MAGIC) {
+    return decodeLegacyJson(data);
+  }
+
+  const version = hexToBytes(slice(data, 2, 3))[0];
+  if (version !== LANE_CODEC_VERSION) {
+    throw new LaneCodecError(`Unsupported lane codec version ${version}`);
+  }
+
+  const code = hexToBytes(slice(data, 3, 4))[0];
+  const type = (Object.keys(LANE_OPERATION_CODES) as LaneOperationType[]).find(
+    (op) => LANE_OPERATION_CODES[op] === code,
+  );
+  if (!type) throw new LaneCodecError(`Unknown lane operation code ${code}`);
+
+  try {
+    return { format: 'envelope', version, operation: decodeBody(type, slice(data, 4)) };
+  } catch (error) {
+    if (error instanceof LaneCodecError) throw error;
+    const reason = error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+    throw new LaneCodecError(`Malformed ${type} body: ${reason}`);
+  }
+}
+
+// Schema problems with a decoded operation, empty when it is well-formed
+export function validateLaneOperation(operation: LaneOperation): ValidationIssue[] {
+  switch (operation.op) {
+    case 'mint':
+      return validateMintData(operation);
+    case 'transfer': {
+      const issues: ValidationIssue[] = [];
+      if (typeof operation.token_id !== 'string' || !operation.token_id) {
+        issues.push({ field: 'token_id', message: 'is required' });
+      }
+      if (typeof operation.to !== 'string' || !operation.to.trim()) {
+        issues.push({ field: 'to', message: 'is required' });
+      } else if (!isAddress(operation.to, { strict: false })) {
+        issues.push({ field: 'to', message: 'must be a 0x-prefixed 20-byte address' });
+      }
+      return issues;
+    }
+    case 'burn':
+      return typeof operation.token_id === 'string' && operation.token_id
+        ? []
+        : [{ field: 'token_id', message: 'is required' }];
+    default:
+      // Operations not built by decodeLaneCalldata may carry any op
+      return [{ field: 'op', message: `must be one of ${Object.keys(LANE_OPERATION_CODES).join(', ')}` }];
+  }
+}
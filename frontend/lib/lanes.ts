@@ -0,0 +1,145 @@
+import { Address, isAddress } from 'viem';
+import lanesFile from '../lanes.config.json';
+
+/**
+ * Registry of the lanes this frontend knows about, shared by lane-client and
+ * the RPC bridge. Read from lanes.config.json, or from NEXT_PUBLIC_LANES (same
+ * JSON shape) when it is set, so each deployment can swap the list without
+ * editing source. The whole registry ends up in the client bundle: keep
+ * secrets out of it.
+ */
+
+export interface LaneConfig {
+  // Registry key, e.g. "local" or "staging"
+  id: string;
+  name: string;
+  chainId: number;
+  // Public URL of the RPC bridge (/api/rpc) that wallets and lane-client talk to
+  rpcUrl: string;
+  // Address lane transactions are sent to
+  laneAddress: Address;
+  // Derived lane node JSON-RPC the bridge forwards to
+  backendUrl: string;
+  // Further nodes of the same lane, tried in order when backendUrl fails
+  fallbackBackendUrls?: string[];
+  // Lane container serving /nfts, /supply, /operations
+  laneStateUrl: string;
+}
+
+export interface LaneRegistry {
+  defaultLane: string;
+  lanes: LaneConfig[];
+}
+
+const SELECTED_LANE_KEY = 'nft-lane:lane';
+
+function isUrl(value: unknown) {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Check the registry shape up front so a bad config fails at startup, not mid-request
+export function parseLaneRegistry(raw: unknown): LaneRegistry {
+  const registry = raw as Partial<LaneRegistry> | null;
+  if (!registry || !Array.isArray(registry.lanes) || registry.lanes.length === 0) {
+    throw new Error('Lane registry must have a non-empty "lanes" array');
+  }
+
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  registry.lanes.forEach((lane: Partial<LaneConfig>, index) => {
+    const at = `lanes[${index}]`;
+    if (typeof lane.id !== 'string' || !lane.id) problems.push(`${at}.id is required`);
+    else if (ids.has(lane.id)) problems.push(`${at}.id "${lane.id}" is used twice`);
+    else ids.add(lane.id);
+    if (typeof lane.name !== 'string' || !lane.name) problems.push(`${at}.name is required`);
+    if (!Number.isSafeInteger(lane.chainId) || (lane.chainId as number) <= 0) {
+      problems.push(`${at}.chainId must be a positive integer`);
+    }
+    if (!isUrl(lane.rpcUrl)) problems.push(`${at}.rpcUrl must be an http(s) URL`);
+    if (typeof lane.laneAddress !== 'string' || !isAddress(lane.laneAddress)) {
+      problems.push(`${at}.laneAddress must be an address`);
+    }
+    if (!isUrl(lane.backendUrl)) problems.push(`${at}.backendUrl must be an http(s) URL`);
+    if (
+      lane.fallbackBackendUrls !== undefined &&
+      (!Array.isArray(lane.fallbackBackendUrls) || !lane.fallbackBackendUrls.every(isUrl))
+    ) {
+      problems.push(`${at}.fallbackBackendUrls must be an array of http(s) URLs`);
+    }
+    if (!isUrl(lane.laneStateUrl)) problems.push(`${at}.laneStateUrl must be an http(s) URL`);
+  });
+
+  const defaultLane = registry.defaultLane ?? registry.lanes[0]?.id;
+  if (typeof defaultLane !== 'string' || !ids.has(defaultLane)) {
+    problems.push(`defaultLane "${defaultLane}" is not a configured lane`);
+  }
+
+  if (problems.length) throw new Error(`Invalid lane registry: ${problems.join('; ')}`);
+  return { defaultLane: defaultLane as string, lanes: registry.lanes as LaneConfig[] };
+}
+
+function loadLaneRegistry(): LaneRegistry {
+  const override = process.env.NEXT_PUBLIC_LANES;
+  if (!override) return parseLaneRegistry(lanesFile);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(override);
+  } catch {
+    throw new Error('NEXT_PUBLIC_LANES is not valid JSON');
+  }
+  return parseLaneRegistry(raw);
+}
+
+export const laneRegistry = loadLaneRegistry();
+
+export function getLane(id: string): LaneConfig | undefined {
+  return laneRegistry.lanes.find((lane) => lane.id === id);
+}
+
+export function getDefaultLane(): LaneConfig {
+  const id = process.env.NEXT_PUBLIC_DEFAULT_LANE || laneRegistry.defaultLane;
+  const lane = getLane(id);
+  if (!lane) throw new Error(`Default lane "${id}" is not configured`);
+  return lane;
+}
+
+// Lane the user picked in the lane switcher, or the default one (always the default on the server)
+export function getSelectedLane(): LaneConfig {
+  if (typeof window === 'undefined') return getDefaultLane();
+  const id = window.localStorage.getItem(SELECTED_LANE_KEY);
+  return (id && getLane(id)) || getDefaultLane();
+}
+
+export function selectLane(id: string) {
+  if (!getLane(id)) throw new Error(`Unknown lane "${id}"`);
+  window.localStorage.setItem(SELECTED_LANE_KEY, id);
+}
+
+/**
+ * The lane this server's RPC bridge serves: BRIDGE_LANE, else the default.
+ * BACKEND_URL and LANE_STATE_URL still override its node and container URLs;
+ * BACKEND_URL may list several nodes, comma-separated, primary first.
+ */
+export function getBridgeLane(): LaneConfig & { fallbackBackendUrls: string[] } {
+  const id = process.env.BRIDGE_LANE;
+  const lane = id ? getLane(id) : getDefaultLane();
+  if (!lane) throw new Error(`BRIDGE_LANE "${id}" is not configured`);
+
+  const [backendUrl, ...fallbackBackendUrls] = process.env.BACKEND_URL
+    ? process.env.BACKEND_URL.split(',').map((url) => url.trim()).filter(Boolean)
+    : [lane.backendUrl, ...(lane.fallbackBackendUrls ?? [])];
+
+  return {
+    ...lane,
+    backendUrl,
+    fallbackBackendUrls,
+    laneStateUrl: process.env.LANE_STATE_URL || lane.laneStateUrl,
+  };
+}
@@ -0,0 +1,150 @@
+// ERC-721 / OpenSea-style metadata schema, validated in lane-client before
+// signing and again in the RPC bridge before forwarding.
+
+export interface NftAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: 'number' | 'boost_number' | 'boost_percentage' | 'date';
+  max_value?: number;
+}
+
+export interface NftMetadata {
+  name: string;
+  description?: string;
+  image?: string;
+  external_url?: string;
+  attributes?: NftAttribute[];
+  [key: string]: unknown;
+}
+
+// One problem with one field; `field` is a path such as "metadata.attributes[0].value"
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+// Upper bound on mint calldata, so malformed or oversized payloads never get sequenced
+export const MAX_PAYLOAD_BYTES = 8 * 1024;
+
+const MAX_NAME_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_TOKEN_ID_LENGTH = 78; // fits a uint256 in decimal
+const MAX_ATTRIBUTES = 50;
+const DISPLAY_TYPES = ['number', 'boost_number', 'boost_percentage', 'date'];
+const IMAGE_SCHEMES = ['http:', 'https:', 'ipfs:', 'ar:'];
+
+export class MetadataValidationError extends Error {
+  constructor(readonly issues: ValidationIssue[]) {
+    super(issues.map((issue) => `${issue.field}: ${issue.message}`).join('; '));
+    this.name = 'MetadataValidationError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUrl(value: string, schemes: string[]) {
+  try {
+    const { protocol } = new URL(value);
+    // Only inline images count as data: URLs
+    if (protocol === 'data:') return schemes.includes(protocol) && value.startsWith('data:image/');
+    return schemes.includes(protocol);
+  } catch {
+    return false;
+  }
+}
+
+function validateAttribute(attribute: unknown, field: string): ValidationIssue[] {
+  if (!isRecord(attribute)) return [{ field, message: 'must be an object with trait_type and value' }];
+
+  const issues: ValidationIssue[] = [];
+  if (typeof attribute.trait_type !== 'string' || !attribute.trait_type.trim()) {
+    issues.push({ field: `${field}.trait_type`, message: 'is required' });
+  }
+  if (typeof attribute.value !== 'string' && (typeof attribute.value !== 'number' || !Number.isFinite(attribute.value))) {
+    issues.push({ field: `${field}.value`, message: 'must be a string or a number' });
+  }
+  if (attribute.display_type !== undefined) {
+    if (!DISPLAY_TYPES.includes(attribute.display_type as string)) {
+      issues.push({ field: `${field}.display_type`, message: `must be one of ${DISPLAY_TYPES.join(', ')}` });
+    } else if (typeof attribute.value !== 'number') {
+      issues.push({ field: `${field}.value`, message: `must be a number when display_type is ${attribute.display_type}` });
+    }
+  }
+  if (attribute.max_value !== undefined && typeof attribute.max_value !== 'number') {
+    issues.push({ field: `${field}.max_value`, message: 'must be a number' });
+  }
+  return issues;
+}
+
+export function validateMetadata(metadata: unknown, field = 'metadata'): ValidationIssue[] {
+  if (!isRecord(metadata)) return [{ field, message: 'must be a JSON object' }];
+
+  const issues: ValidationIssue[] = [];
+  const { name, description, image, external_url, attributes } = metadata;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    issues.push({ field: `${field}.name`, message: 'is required' });
+  } else if (name.length > MAX_NAME_LENGTH) {
+    issues.push({ field: `${field}.name`, message: `must be at most ${MAX_NAME_LENGTH} characters` });
+  }
+
+  if (description !== undefined) {
+    if (typeof description !== 'string') {
+      issues.push({ field: `${field}.description`, message: 'must be a string' });
+    } else if (description.length > MAX_DESCRIPTION_LENGTH) {
+      issues.push({ field: `${field}.description`, message: `must be at most ${MAX_DESCRIPTION_LENGTH} characters` });
+    }
+  }
+
+  if (image !== undefined && (typeof image !== 'string' || !isUrl(image, [...IMAGE_SCHEMES, 'data:']))) {
+    issues.push({ field: `${field}.image`, message: 'must be an http(s), ipfs://, ar:// or data:image URL' });
+  }
+
+  if (external_url !== undefined && (typeof external_url !== 'string' || !isUrl(external_url, ['http:', 'https:']))) {
+    issues.push({ field: `${field}.external_url`, message: 'must be an http(s) URL' });
+  }
+
+  if (attributes !== undefined) {
+    if (!Array.isArray(attributes)) {
+      issues.push({ field: `${field}.attributes`, message: 'must be an array of { trait_type, value }' });
+    } else if (attributes.length > MAX_ATTRIBUTES) {
+      issues.push({ field: `${field}.attributes`, message: `must have at most ${MAX_ATTRIBUTES} entries` });
+    } else {
+      attributes.forEach((attribute, index) => {
+        issues.push(...validateAttribute(attribute, `${field}.attributes[${index}]`));
+      });
+    }
+  }
+
+  return issues;
+}
+
+// Validate a whole mint request: { token_id?, owner?, metadata }
+export function validateMintData(data: unknown): ValidationIssue[] {
+  if (!isRecord(data)) return [{ field: 'data', message: 'must be a JSON object' }];
+
+  const issues: ValidationIssue[] = [];
+  const { token_id, owner } = data;
+
+  if (token_id !== undefined) {
+    if (typeof token_id !== 'string' || !token_id.trim()) {
+      issues.push({ field: 'token_id', message: 'must be a non-empty string' });
+    } else if (token_id.length > MAX_TOKEN_ID_LENGTH) {
+      issues.push({ field: 'token_id', message: `must be at most ${MAX_TOKEN_ID_LENGTH} characters` });
+    }
+  }
+
+  if (owner !== undefined && (typeof owner !== 'string' || !owner.trim())) {
+    issues.push({ field: 'owner', message: 'must be a non-empty string' });
+  }
+
+  return [...issues, ...validateMetadata(data.metadata)];
+}
+
+export function validatePayloadSize(byteLength: number): ValidationIssue[] {
+  return byteLength > MAX_PAYLOAD_BYTES
+    ? [{ field: 'data', message: `encoded payload is ${byteLength} bytes, the limit is ${MAX_PAYLOAD_BYTES}` }]
+    : [];
+}
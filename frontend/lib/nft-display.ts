@@ -0,0 +1,25 @@
+import { NftToken } from './nft-types';
+
+// Public gateway used to display ipfs:// images from metadata
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+export function tokenName(token: NftToken) {
+  const name = token.metadata.name;
+  return typeof name === 'string' && name.trim() ? name : `Token #${token.token_id}`;
+}
+
+export function tokenDescription(token: NftToken) {
+  const description = token.metadata.description;
+  return typeof description === 'string' ? description : undefined;
+}
+
+// Image URL from metadata, with ipfs:// rewritten to an HTTP gateway
+export function tokenImage(token: NftToken) {
+  const image = token.metadata.image;
+  if (typeof image !== 'string' || !image) return undefined;
+  return image.startsWith('ipfs://') ? `${IPFS_GATEWAY}${image.slice('ipfs://'.length)}` : image;
+}
+
+export function shortAddress(address: string) {
+  return address.startsWith('0x') && address.length > 12 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address;
+}
@@ -0,0 +1,105 @@
+// NFT data as stored in lane state, shared by the RPC bridge and lane-client
+
+export interface NftToken {
+  token_id: string;
+  owner: string;
+  metadata: Record<string, unknown>;
+  minted_at: string;
+  // sha256 of the mint calldata, used to find the mint transaction
+  payload_digest?: string | null;
+}
+
+export interface NftTokenPage {
+  tokens: NftToken[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface PageOptions {
+  offset?: number;
+  limit?: number;
+}
+
+export interface TokenFilter extends PageOptions {
+  owner?: string;
+}
+
+// Executed mint, transfer or burn, as logged by the container (GET /operations)
+export interface LaneOperationRecord {
+  op: 'mint' | 'transfer' | 'burn';
+  token_id: string;
+  // User the container executed it for (the transaction sender)
+  sender: string | null;
+  // null for mints
+  from: string | null;
+  // null for burns
+  to: string | null;
+  executed_at: string;
+  // sha256 of the operation calldata, used to find its transaction
+  payload_digest: string;
+}
+
+export interface LaneOperationPage {
+  operations: LaneOperationRecord[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+// Bridge record of the transaction that minted a token
+export interface MintTransaction {
+  hash: string;
+  from: string;
+  status: 'pending' | 'success' | 'failed';
+  blockNumber: string | null;
+  timestamp: number;
+}
+
+/**
+ * Where a lane transaction is in its lifecycle:
+ * forwarded (accepted by the derived lane node) → sequenced (in a block)
+ * → executed (visible in lane state), or failed
+ */
+export type TransactionStage = 'forwarded' | 'sequenced' | 'executed' | 'failed';
+
+export interface LaneTransactionStatus {
+  hash: string;
+  stage: TransactionStage;
+  blockNumber: string | null;
+  // Token the transaction minted, transferred or burned
+  tokenId: string | null;
+  error: string | null;
+}
+
+/**
+ * Live bridge events, streamed from /api/rpc/events. Each subscription pushes
+ * eth_subscription messages whose result has the type below:
+ * - newHeads:               LaneBlockHead
+ * - logs:                   ERC-721 Transfer log (Ethereum log object)
+ * - newPendingTransactions: transaction hash
+ * - lane_transactions:      LaneTransactionStatus
+ * - lane_tokens:            LaneTokenEvent
+ */
+export type LaneSubscription = 'newHeads' | 'logs' | 'newPendingTransactions' | 'lane_transactions' | 'lane_tokens';
+
+export const LANE_SUBSCRIPTIONS: LaneSubscription[] = ['newHeads', 'logs', 'newPendingTransactions', 'lane_transactions', 'lane_tokens'];
+
+export interface LaneBlockHead {
+  number: string;
+  hash: string;
+  parentHash: string;
+  // Unix seconds, hex encoded
+  timestamp: string;
+}
+
+// Mint, transfer or burn once it is visible in lane state
+export interface LaneTokenEvent {
+  op: 'mint' | 'transfer' | 'burn';
+  tokenId: string;
+  hash: string;
+  // Null for the minted side of a mint and the burned side of a burn
+  from: string | null;
+  to: string | null;
+  blockNumber: string | null;
+}
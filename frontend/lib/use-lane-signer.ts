@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Address, Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { connectWallet, getInjectedProvider, LaneSigner, DEV_MODE, DEV_PRIVATE_KEY } from './lane-client';
+
+// The account of a pasted private key (0x optional), or null while it is not one
+function devAccountFor(key: string) {
+  const trimmed = key.trim();
+  try {
+    return privateKeyToAccount((trimmed.startsWith('0x') ? trimmed : `0x${trimmed}`) as Hex);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Browser wallet connection with the dev-mode fallback to a private key
+ * (`devKey`, the default dev key unless replaced). `signerAddress` is whoever
+ * would sign right now, or null if nobody can.
+ */
+export function useLaneSigner() {
+  const [account, setAccount] = useState<Address | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const [walletError, setWalletError] = useState<string | null>(null);
+  const [useDevKey, setUseDevKey] = useState(DEV_MODE);
+  const [devKey, setDevKey] = useState<string>(DEV_PRIVATE_KEY);
+
+  // Follow account switches made in the wallet itself
+  useEffect(() => {
+    const provider = getInjectedProvider();
+    if (!provider) return;
+
+    const onAccountsChanged = (accounts: Address[]) => setAccount(accounts[0] ?? null);
+    provider.on('accountsChanged', onAccountsChanged);
+    return () => provider.removeListener('accountsChanged', onAccountsChanged);
+  }, []);
+
+  const signsWithDevKey = DEV_MODE && useDevKey;
+  const devAccount = useMemo(() => (signsWithDevKey ? devAccountFor(devKey) : null), [signsWithDevKey, devKey]);
+  const signerAddress = signsWithDevKey ? (devAccount?.address ?? null) : account;
+
+  const connect = async () => {
+    const provider = getInjectedProvider();
+    if (!provider) {
+      setWalletError('No browser wallet found. Install MetaMask, Rabby or another EIP-1193 wallet.');
+      return;
+    }
+
+    setConnecting(true);
+    setWalletError(null);
+    try {
+      setAccount(await connectWallet(provider));
+    } catch (err) {
+      setWalletError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const getSigner = (): LaneSigner => {
+    if (signsWithDevKey) {
+      if (!devAccount) throw new Error('The signer private key is not a valid 32-byte hex key');
+      return devAccount;
+    }
+
+    const provider = getInjectedProvider();
+    if (!provider || !account) throw new Error('Connect a wallet to sign the transaction');
+    return { provider, address: account };
+  };
+
+  return { signerAddress, connecting, walletError, useDevKey, setUseDevKey, devKey, setDevKey, connect, getSigner };
+}
@@ -0,0 +1,167 @@
+/**
+ * End-to-end wallet session against a running bridge
+ *
+ * GET /api/rpc?check=wallet only runs the read methods the bridge answers
+ * itself. This script goes through a whole session the way viem (and so most
+ * wallets) does it: connect, read the account, prepare and sign a mint, send
+ * it with eth_sendRawTransaction, resend it, and wait for its receipt and
+ * Transfer log. It needs the bridge and the derived lane node running, and
+ * mints one token.
+ *
+ *   npm run check:wallet
+ *
+ * The lane comes from lanes.config.json (BRIDGE_LANE, or the default lane);
+ * BRIDGE_RPC_URL overrides its rpcUrl. WALLET_CHECK_KEY is the signing key
+ * (default: the dev key in lib/lane-client). Exits non-zero at the first step
+ * that fails.
+ */
+import { readFileSync } from "fs";
+import {
+  concat,
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  encodeAbiParameters,
+  http,
+  keccak256,
+  parseAbiParameters,
+  toBytes,
+  toHex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+const config = JSON.parse(
+  readFileSync(new URL("../lanes.config.json", import.meta.url), "utf8")
+);
+const laneId = process.env.BRIDGE_LANE || config.defaultLane;
+const lane = config.lanes.find((entry) => entry.id === laneId);
+if (!lane) throw new Error(`Lane "${laneId}" is not configured`);
+
+const RPC_URL = process.env.BRIDGE_RPC_URL || lane.rpcUrl;
+const PRIVATE_KEY =
+  process.env.WALLET_CHECK_KEY ||
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a";
+const RECEIPT_TIMEOUT = 120_000;
+
+const TRANSFER_TOPIC = keccak256(toBytes("Transfer(address,address,uint256)"));
+
+// Mint envelope as in lib/lane-codec: "NL" | version 1 | operation 1 | ABI body
+function encodeMint(metadata) {
+  return concat([
+    toHex("NL"),
+    toHex(1, { size: 1 }),
+    toHex(1, { size: 1 }),
+    encodeAbiParameters(
+      parseAbiParameters("string tokenId, string owner, string metadata"),
+      ["", "", JSON.stringify(metadata)]
+    ),
+  ]);
+}
+
+async function step(name, run) {
+  try {
+    const result = await run();
+    console.log(`ok    ${name}`);
+    return result;
+  } catch (error) {
+    console.error(`FAIL  ${name}: ${error.shortMessage || error.message}`);
+    process.exit(1);
+  }
+}
+
+function expect(condition, message) {
+  if (!condition) throw new Error(message);
+}
+
+const transport = http(RPC_URL);
+const account = privateKeyToAccount(PRIVATE_KEY);
+console.log(`Wallet session against ${RPC_URL} as ${account.address}`);
+
+// Connecting
+const bootstrap = createPublicClient({ transport });
+const chainId = await step("eth_chainId", () => bootstrap.getChainId());
+const chain = defineChain({
+  id: chainId,
+  name: "NFT Lane",
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: { default: { http: [RPC_URL] } },
+});
+const client = createPublicClient({ chain, transport });
+const wallet = createWalletClient({ account, chain, transport });
+await step("eth_blockNumber", () => client.getBlockNumber());
+
+// Account
+await step("eth_getBalance", () =>
+  client.getBalance({ address: account.address })
+);
+const nonce = await step("eth_getTransactionCount", () =>
+  client.getTransactionCount({
+    address: account.address,
+    blockTag: "pending",
+  })
+);
+
+// Transaction setup: fees, gas and nonce filled in as viem does for wallets
+await step("eth_feeHistory / eth_maxPriorityFeePerGas", () =>
+  client.estimateFeesPerGas()
+);
+const data = encodeMint({ name: "Wallet session check" });
+const request = await step("prepare transaction (eth_estimateGas)", () =>
+  wallet.prepareTransactionRequest({ to: lane.laneAddress, data })
+);
+await step("nonce matches eth_getTransactionCount", () =>
+  expect(
+    request.nonce === nonce,
+    `prepared ${request.nonce}, expected ${nonce}`
+  )
+);
+
+// Sending
+const raw = await step("sign transaction", () =>
+  wallet.signTransaction(request)
+);
+const hash = await step("eth_sendRawTransaction", () =>
+  wallet.sendRawTransaction({ serializedTransaction: raw })
+);
+await step(
+  "eth_sendRawTransaction (resend answers the same hash)",
+  async () => {
+    const again = await wallet.sendRawTransaction({
+      serializedTransaction: raw,
+    });
+    expect(again === hash, `resend answered ${again}, first send ${hash}`);
+  }
+);
+
+// Confirmation
+await step("eth_getTransactionByHash", async () => {
+  const tx = await client.getTransaction({ hash });
+  expect(
+    tx.from.toLowerCase() === account.address.toLowerCase(),
+    "wrong sender"
+  );
+});
+const receipt = await step("eth_getTransactionReceipt", () =>
+  client.waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT })
+);
+await step("receipt succeeded with a Transfer log", () => {
+  expect(receipt.status === "success", `status ${receipt.status}`);
+  const transfer = receipt.logs.find((log) => log.topics[0] === TRANSFER_TOPIC);
+  expect(transfer, "no Transfer log");
+  expect(
+    BigInt(transfer.topics[2]) === BigInt(account.address),
+    "Transfer log is not to the sender"
+  );
+});
+await step("eth_getLogs", async () => {
+  const logs = await client.getLogs({
+    fromBlock: receipt.blockNumber,
+    toBlock: receipt.blockNumber,
+  });
+  expect(
+    logs.some((log) => log.transactionHash === hash),
+    "the mint's log is missing"
+  );
+});
+
+console.log("Wallet session completed");